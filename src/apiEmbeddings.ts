@@ -1,39 +1,347 @@
 /**
- * Gemini API wrappers for text embedding and VLM (Vision Language Model).
- * Used in "fast" and "vlm" modes when user provides a Gemini API key.
+ * Embedding and VLM (Vision Language Model) providers.
+ * Used in "fast" and "vlm" modes. Three backends, picked in the popup:
+ *   gemini — Google Generative Language API (text-embedding-004, gemini-2.0-flash)
+ *   openai — any OpenAI-compatible server (/embeddings, /chat/completions),
+ *            e.g. OpenAI itself, vLLM, LocalAI, or an internal gateway
+ *   ollama — a local Ollama server (/api/embed, /api/generate)
+ * Each has a configurable base URL, model names and embedding dimension.
+ * "local" mode ignores these and embeds on-device (see localEmbeddings.ts).
  */
 
-const EMBEDDING_URL = "https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent";
-const VLM_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
+import { LOCAL_MODEL_DIMENSION, LOCAL_MODEL_ID, localEmbed } from "./localEmbeddings";
+import type { EmbeddingProviderKind, XUploadConfig } from "./types";
+
+export interface EmbeddingProvider {
+  /** "kind:model" — identifies which model produced a vector */
+  readonly id: string;
+  /** Expected vector length, when configured */
+  readonly dimension?: number;
+  embed(text: string): Promise<number[]>;
+  /** Several texts in one request, for backends with a batch endpoint */
+  embedMany?(texts: string[]): Promise<number[][]>;
+}
+
+export interface VisionProvider {
+  readonly id: string;
+  /** Describe what file an upload area (screenshot + surrounding text) asks for */
+  describe(imageBase64: string, contextText: string): Promise<string>;
+}
+
+interface ProviderDefaults {
+  baseUrl: string;
+  embeddingModel: string;
+  visionModel: string;
+}
+
+export const PROVIDER_DEFAULTS: Record<EmbeddingProviderKind, ProviderDefaults> = {
+  gemini: {
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    embeddingModel: "text-embedding-004",
+    visionModel: "gemini-2.0-flash",
+  },
+  openai: {
+    baseUrl: "https://api.openai.com/v1",
+    embeddingModel: "text-embedding-3-small",
+    visionModel: "gpt-4o-mini",
+  },
+  ollama: {
+    baseUrl: "http://localhost:11434",
+    embeddingModel: "nomic-embed-text",
+    visionModel: "llava",
+  },
+};
+
+const MAX_EMBED_CHARS = 8000;
+
+function visionPrompt(contextText: string): string {
+  return `You are analyzing a webpage screenshot showing a file upload area. The surrounding text context is: "${contextText.slice(0, 500)}"\n\nDescribe in 2-3 sentences what type of file this upload field is asking the user to provide. Be specific about the document type (e.g., passport, resume, transcript, photo ID, tax form, etc.). Focus on keywords that would help match against file names and content.`;
+}
+
+/** Resolved provider settings: config values with the kind's defaults filled in */
+interface ProviderSettings {
+  kind: EmbeddingProviderKind;
+  baseUrl: string;
+  apiKey: string;
+  embeddingModel: string;
+  visionModel: string;
+  dimension?: number;
+}
+
+function resolveSettings(config: XUploadConfig): ProviderSettings {
+  const kind = config.provider || "gemini";
+  const defaults = PROVIDER_DEFAULTS[kind];
+  return {
+    kind,
+    baseUrl: (config.baseUrl || defaults.baseUrl).replace(/\/+$/, ""),
+    apiKey: config.apiKey || "",
+    embeddingModel: config.embeddingModel || defaults.embeddingModel,
+    visionModel: config.visionModel || defaults.visionModel,
+    dimension: config.dimension || undefined,
+  };
+}
 
 /**
- * Get a 768-dim text embedding from Gemini text-embedding-004.
+ * Whether dense matching can run with this config. Local mode always can;
+ * Gemini needs a key; OpenAI-compatible and Ollama servers may run without one.
  */
-export async function getEmbedding(text: string, apiKey: string): Promise<number[]> {
-  const resp = await fetch(`${EMBEDDING_URL}?key=${apiKey}`, {
+export function isProviderConfigured(config: XUploadConfig): boolean {
+  if (config.mode === "local") return true;
+  const kind = config.provider || "gemini";
+  if (kind === "gemini") return !!config.apiKey;
+  return true;
+}
+
+/** Origin a provider talks to — the popup asks for host access to it */
+export function providerOrigin(config: XUploadConfig): string | null {
+  try {
+    return new URL(resolveSettings(config).baseUrl).origin;
+  } catch {
+    return null;
+  }
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, label: string): Promise<any> {
+  const resp = await fetch(url, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      content: { parts: [{ text: text.slice(0, 8000) }] },
-    }),
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
   });
-
   if (!resp.ok) {
     const err = await resp.text();
-    throw new Error(`Gemini embedding error ${resp.status}: ${err}`);
+    throw new Error(`${label} error ${resp.status}: ${err}`);
   }
+  return resp.json();
+}
 
-  const data = await resp.json();
-  return data.embedding.values as number[];
+function checkDimension(vector: number[], settings: ProviderSettings): number[] {
+  if (!Array.isArray(vector) || vector.length === 0) {
+    throw new Error(`${settings.kind} returned no embedding`);
+  }
+  if (settings.dimension && vector.length !== settings.dimension) {
+    throw new Error(
+      `${settings.kind} model ${settings.embeddingModel} returned ${vector.length}-dim vectors, expected ${settings.dimension}`,
+    );
+  }
+  return vector;
+}
+
+/* ---- Gemini ---- */
+
+function createGeminiEmbeddings(s: ProviderSettings): EmbeddingProvider {
+  return {
+    id: `gemini:${s.embeddingModel}`,
+    dimension: s.dimension,
+    async embed(text) {
+      // Key goes in a header so it never ends up in URLs or request logs
+      const data = await postJson(
+        `${s.baseUrl}/models/${s.embeddingModel}:embedContent`,
+        { "x-goog-api-key": s.apiKey },
+        {
+          content: { parts: [{ text: text.slice(0, MAX_EMBED_CHARS) }] },
+          ...(s.dimension ? { outputDimensionality: s.dimension } : {}),
+        },
+        "Gemini embedding",
+      );
+      return checkDimension(data.embedding?.values, s);
+    },
+  };
+}
+
+function createGeminiVision(s: ProviderSettings): VisionProvider {
+  return {
+    id: `gemini:${s.visionModel}`,
+    async describe(imageBase64, contextText) {
+      const data = await postJson(
+        `${s.baseUrl}/models/${s.visionModel}:generateContent`,
+        { "x-goog-api-key": s.apiKey },
+        {
+          contents: [{
+            parts: [
+              { inlineData: { mimeType: "image/png", data: imageBase64 } },
+              { text: visionPrompt(contextText) },
+            ],
+          }],
+          generationConfig: {
+            maxOutputTokens: 200,
+            temperature: 0.2,
+          },
+        },
+        "Gemini VLM",
+      );
+      return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    },
+  };
+}
+
+/* ---- OpenAI-compatible ---- */
+
+function bearer(s: ProviderSettings): Record<string, string> {
+  return s.apiKey ? { Authorization: `Bearer ${s.apiKey}` } : {};
+}
+
+function createOpenAIEmbeddings(s: ProviderSettings): EmbeddingProvider {
+  const embedMany = async (texts: string[]): Promise<number[][]> => {
+    const data = await postJson(
+      `${s.baseUrl}/embeddings`,
+      bearer(s),
+      {
+        model: s.embeddingModel,
+        input: texts.map((t) => t.slice(0, MAX_EMBED_CHARS)),
+        ...(s.dimension ? { dimensions: s.dimension } : {}),
+      },
+      "Embedding server",
+    );
+    const rows = [...(data.data || [])].sort((a: any, b: any) => a.index - b.index);
+    return rows.map((row: any) => checkDimension(row.embedding, s));
+  };
+  return {
+    id: `openai:${s.embeddingModel}`,
+    dimension: s.dimension,
+    embedMany,
+    async embed(text) {
+      return (await embedMany([text]))[0];
+    },
+  };
+}
+
+function createOpenAIVision(s: ProviderSettings): VisionProvider {
+  return {
+    id: `openai:${s.visionModel}`,
+    async describe(imageBase64, contextText) {
+      const data = await postJson(
+        `${s.baseUrl}/chat/completions`,
+        bearer(s),
+        {
+          model: s.visionModel,
+          max_tokens: 200,
+          temperature: 0.2,
+          messages: [{
+            role: "user",
+            content: [
+              { type: "text", text: visionPrompt(contextText) },
+              { type: "image_url", image_url: { url: `data:image/png;base64,${imageBase64}` } },
+            ],
+          }],
+        },
+        "Vision server",
+      );
+      return data.choices?.[0]?.message?.content || "";
+    },
+  };
+}
+
+/* ---- Ollama ---- */
+
+function createOllamaEmbeddings(s: ProviderSettings): EmbeddingProvider {
+  const embedMany = async (texts: string[]): Promise<number[][]> => {
+    const data = await postJson(
+      `${s.baseUrl}/api/embed`,
+      {},
+      { model: s.embeddingModel, input: texts.map((t) => t.slice(0, MAX_EMBED_CHARS)) },
+      "Ollama embedding",
+    );
+    return (data.embeddings || []).map((v: number[]) => checkDimension(v, s));
+  };
+  return {
+    id: `ollama:${s.embeddingModel}`,
+    dimension: s.dimension,
+    embedMany,
+    async embed(text) {
+      return (await embedMany([text]))[0];
+    },
+  };
+}
+
+function createOllamaVision(s: ProviderSettings): VisionProvider {
+  return {
+    id: `ollama:${s.visionModel}`,
+    async describe(imageBase64, contextText) {
+      const data = await postJson(
+        `${s.baseUrl}/api/generate`,
+        {},
+        {
+          model: s.visionModel,
+          prompt: visionPrompt(contextText),
+          images: [imageBase64],
+          stream: false,
+          options: { temperature: 0.2, num_predict: 200 },
+        },
+        "Ollama VLM",
+      );
+      return data.response || "";
+    },
+  };
+}
+
+/* ---- On-device ---- */
+
+function createLocalEmbeddings(): EmbeddingProvider {
+  return {
+    id: `local:${LOCAL_MODEL_ID}`,
+    dimension: LOCAL_MODEL_DIMENSION,
+    embedMany: localEmbed,
+    async embed(text) {
+      return (await localEmbed([text]))[0];
+    },
+  };
+}
+
+/* ---- Config ---- */
+
+/** The saved config, or TF-IDF defaults before anything was saved */
+export function getApiConfig(): Promise<XUploadConfig> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get("xupload_config", (data) => {
+      resolve(data.xupload_config || { apiKey: "", mode: "tfidf" });
+    });
+  });
+}
+
+/* ---- Factories ---- */
+
+/** Embedding backend for this config, or null when it isn't usable */
+export function getEmbeddingProvider(config: XUploadConfig): EmbeddingProvider | null {
+  if (!isProviderConfigured(config)) return null;
+  if (config.mode === "local") return createLocalEmbeddings();
+  const s = resolveSettings(config);
+  switch (s.kind) {
+    case "openai":
+      return createOpenAIEmbeddings(s);
+    case "ollama":
+      return createOllamaEmbeddings(s);
+    default:
+      return createGeminiEmbeddings(s);
+  }
+}
+
+/** Embedding backend the current mode uses; null in TF-IDF mode */
+export function activeEmbedder(config: XUploadConfig): EmbeddingProvider | null {
+  return config.mode !== "tfidf" ? getEmbeddingProvider(config) : null;
+}
+
+/** Vision backend for this config, or null when it isn't usable */
+export function getVisionProvider(config: XUploadConfig): VisionProvider | null {
+  if (!isProviderConfigured(config)) return null;
+  const s = resolveSettings(config);
+  switch (s.kind) {
+    case "openai":
+      return createOpenAIVision(s);
+    case "ollama":
+      return createOllamaVision(s);
+    default:
+      return createGeminiVision(s);
+  }
 }
 
 /**
- * Batch embed multiple texts. Gemini doesn't have a native batch endpoint,
- * so we send requests in parallel with rate limiting.
+ * Batch embed multiple texts. Backends with a batch endpoint get one request
+ * per batch; Gemini gets parallel single requests. Batches are spaced out to
+ * respect rate limits.
  */
 export async function batchEmbed(
   texts: string[],
-  apiKey: string,
+  provider: EmbeddingProvider,
   batchSize = 10,
   onProgress?: (done: number, total: number) => void,
 ): Promise<number[][]> {
@@ -41,9 +349,9 @@ export async function batchEmbed(
 
   for (let i = 0; i < texts.length; i += batchSize) {
     const batch = texts.slice(i, i + batchSize);
-    const embeddings = await Promise.all(
-      batch.map((t) => getEmbedding(t, apiKey))
-    );
+    const embeddings = provider.embedMany
+      ? await provider.embedMany(batch)
+      : await Promise.all(batch.map((t) => provider.embed(t)));
     results.push(...embeddings);
     onProgress?.(Math.min(i + batchSize, texts.length), texts.length);
 
@@ -57,44 +365,38 @@ export async function batchEmbed(
 }
 
 /**
- * Use Gemini 2.0 Flash with vision to describe what file a webpage is asking for.
- * Takes a screenshot (base64) and context text, returns a descriptive string.
+ * Like batchEmbed, but one bad file doesn't sink the rest: every text gets
+ * its own fulfilled/rejected result. A batch request that fails is retried
+ * text by text so the failure lands on the file that caused it.
  */
-export async function describeWithVLM(
-  imageBase64: string,
-  contextText: string,
-  apiKey: string,
-): Promise<string> {
-  const resp = await fetch(`${VLM_URL}?key=${apiKey}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [{
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/png",
-              data: imageBase64,
-            },
-          },
-          {
-            text: `You are analyzing a webpage screenshot showing a file upload area. The surrounding text context is: "${contextText.slice(0, 500)}"\n\nDescribe in 2-3 sentences what type of file this upload field is asking the user to provide. Be specific about the document type (e.g., passport, resume, transcript, photo ID, tax form, etc.). Focus on keywords that would help match against file names and content.`,
-          },
-        ],
-      }],
-      generationConfig: {
-        maxOutputTokens: 200,
-        temperature: 0.2,
-      },
-    }),
-  });
+export async function batchEmbedSettled(
+  texts: string[],
+  provider: EmbeddingProvider,
+  batchSize = 10,
+  onProgress?: (done: number, total: number) => void,
+): Promise<PromiseSettledResult<number[]>[]> {
+  const results: PromiseSettledResult<number[]>[] = [];
 
-  if (!resp.ok) {
-    const err = await resp.text();
-    throw new Error(`Gemini VLM error ${resp.status}: ${err}`);
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts.slice(i, i + batchSize);
+    let settled: PromiseSettledResult<number[]>[] | null = null;
+    if (provider.embedMany) {
+      try {
+        const embeddings = await provider.embedMany(batch);
+        if (embeddings.length === batch.length) {
+          settled = embeddings.map((value) => ({ status: "fulfilled", value }));
+        }
+      } catch {
+        // Fall through to one request per text
+      }
+    }
+    results.push(...(settled ?? await Promise.allSettled(batch.map((t) => provider.embed(t)))));
+    onProgress?.(Math.min(i + batchSize, texts.length), texts.length);
+
+    if (i + batchSize < texts.length) {
+      await new Promise((r) => setTimeout(r, 200));
+    }
   }
 
-  const data = await resp.json();
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-  return text;
+  return results;
 }
@@ -1,42 +1,106 @@
 import {
+  extractText,
   tokenize,
   tokenizeFiltered,
   vectorize,
-  buildVocabulary,
-  exportVocab,
   importVocab,
   getVocabSize,
 } from "./embeddings";
 import {
   search,
   denseSearch,
+  isDenseCompatible,
+  readIndexedFile,
   getCount,
   getFileData,
   upsert,
-  clearAll,
   saveVocab,
   getVocab,
   addUploadHistory,
   getHistoryByHost,
   getAll,
-  deleteById,
+  getById,
+  filterByAccept,
+  addNegativeFeedback,
+  getNegativeFeedbackByHost,
+  addRankingEvent,
+  recordRankingPick,
+  getRankingEvents,
+  getRankingModel,
+  saveRankingModel,
+  resetRankingData,
+  getRoots,
+  getRoot,
+  addRoot,
+  getRecordsByRoot,
+  parseFileId,
+  removeRoot,
   getDirectoryHandle,
-  getRescanConfig,
-  saveRescanConfig,
+  saveScanReport,
+  getIndexJobs,
+  getEnabledRecords,
+  getRootPermission,
   saveUsedPath,
   clearScannedData,
 } from "./vectordb";
+import type { SearchResult, VectorRecord } from "./vectordb";
 import type {
+  BuildIndexRequest,
+  BuildIndexResponse,
   ClearScannedDataRequest,
   ClearScannedDataResponse,
+  CollectFrameZonesRequest,
+  DismissSuggestionRequest,
+  FillFrameZoneRequest,
+  FillFrameZoneResponse,
+  FindRootsRequest,
+  FindRootsResponse,
+  FrameZone,
+  FrameZonesResponse,
+  GetFrameContextRequest,
+  GetFrameContextResponse,
+  GetKnownFilesRequest,
+  GetKnownFilesResponse,
+  GetIndexJobsResponse,
+  IndexJobControlRequest,
+  IndexJobResponse,
   MatchRequest,
   MatchRequestEnhanced,
   MatchResponse,
+  NegativeFeedbackEntry,
+  PageContext,
+  RankingFeatures,
+  RankingStatusResponse,
+  ReembedProgressMessage,
+  ReembedStatus,
+  RemoveRootRequest,
+  RemoveRootResponse,
+  RootChoice,
+  SearchRequest,
+  SearchResponse,
+  StartIndexJobRequest,
+  TrackNativeUploadRequest,
+  TrackNativeUploadResponse,
+  UploadBundle,
   UploadHistoryEntry,
+  UploadSource,
   XUploadConfig
 } from "./types";
-import { getEmbedding, batchEmbed, describeWithVLM } from "./apiEmbeddings";
+import { activeEmbedder, batchEmbed, getApiConfig, getEmbeddingProvider, getVisionProvider } from "./apiEmbeddings";
+import { commitIndex, getKnownFiles, withIndexLock } from "./indexer";
+import { cancelIndexJobs, controlIndexJob, resumeIndexJobs, startIndexJob } from "./indexJobs";
 import { createWorkflowId, logWorkflowError, logWorkflowStep, roundScore } from "./workflow";
+import { mineUploadBundle, urlPathSegments, urlPrefixWeight } from "./bundles";
+import { contextTokenWeights, weightedQueryTokens } from "./contextFields";
+import { fuzzySearch } from "./fuzzy";
+import {
+  MIN_TRAINING_EVENTS,
+  defaultWeights,
+  fuseScores,
+  isLabelled,
+  trainRankingModel,
+  withDenseShare,
+} from "./ranking";
 
 async function ensureVocab(): Promise<void> {
   if (getVocabSize() > 0) return;
@@ -67,7 +131,7 @@ async function ensureVocab(): Promise<void> {
 
 ensureVocab();
 
-chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
   if (msg.type === "MATCH_REQUEST") {
     handleMatch(msg as MatchRequest).then(sendResponse);
     return true;
@@ -84,7 +148,17 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
   }
 
   if (msg.type === "BUILD_INDEX") {
-    handleBuildIndex(msg.files, msg.workflowId).then(sendResponse);
+    handleBuildIndex(msg as BuildIndexRequest).then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "FIND_ROOTS") {
+    handleFindRoots(msg as FindRootsRequest).then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "GET_KNOWN_FILES") {
+    handleGetKnownFiles(msg as GetKnownFilesRequest).then(sendResponse);
     return true;
   }
 
@@ -112,6 +186,7 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
     const entry = msg.entry as Omit<UploadHistoryEntry, "id">;
     addUploadHistory(entry).then(() => {
       sendResponse({ ok: true });
+      if (msg.rankingEventId) void learnFromPick(msg.rankingEventId, entry.fileId);
     }).catch((err) => {
       console.error("[xUpload] Failed to track upload:", err);
       sendResponse({ ok: false });
@@ -119,6 +194,26 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
     return true;
   }
 
+  if (msg.type === "GET_RANKING_STATUS") {
+    getRankingStatus().then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "RESET_RANKING_MODEL") {
+    resetRankingData()
+      .then(() => sendResponse({ ok: true }))
+      .catch((err) => {
+        console.error("[xUpload] Failed to reset ranking model:", err);
+        sendResponse({ ok: false });
+      });
+    return true;
+  }
+
+  if (msg.type === "TRACK_NATIVE_UPLOAD") {
+    handleTrackNativeUpload(msg as TrackNativeUploadRequest).then(sendResponse);
+    return true;
+  }
+
   if (msg.type === "MATCH_REQUEST_ENHANCED") {
     handleMatchEnhanced(msg as MatchRequestEnhanced).then(sendResponse);
     return true;
@@ -149,59 +244,456 @@ chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
     return true;
   }
 
+  if (msg.type === "REMOVE_ROOT") {
+    handleRemoveRoot(msg as RemoveRootRequest).then(sendResponse);
+    return true;
+  }
+
   if (msg.type === "CLEAR_SCANNED_DATA") {
     handleClearScannedData(msg as ClearScannedDataRequest).then(sendResponse);
     return true;
   }
+
+  if (msg.type === "DISMISS_SUGGESTION") {
+    handleDismissSuggestion(msg as DismissSuggestionRequest)
+      .then(() => sendResponse({ ok: true }))
+      .catch((err) => {
+        console.error("[xUpload] Failed to record dismissal:", err);
+        sendResponse({ ok: false });
+      });
+    return true;
+  }
+
+  if (msg.type === "SEARCH_REQUEST") {
+    handleSearch(msg as SearchRequest).then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "START_INDEX_JOB") {
+    const req = msg as StartIndexJobRequest;
+    startIndexJob(req.rootId, req.incremental, req.workflowId)
+      .then((job): IndexJobResponse => ({ ok: true, job }))
+      .catch((err): IndexJobResponse => ({ ok: false, error: err?.message || String(err) }))
+      .then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "INDEX_JOB_CONTROL") {
+    const req = msg as IndexJobControlRequest;
+    controlIndexJob(req.jobId, req.action)
+      .then((job): IndexJobResponse => ({ ok: true, job }))
+      .catch((err): IndexJobResponse => ({ ok: false, error: err?.message || String(err) }))
+      .then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "GET_INDEX_JOBS") {
+    getIndexJobs().then((jobs): GetIndexJobsResponse => ({ jobs })).then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "GET_REEMBED_STATUS") {
+    getReembedStatus().then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "GET_FRAME_CONTEXT") {
+    handleGetFrameContext(msg as GetFrameContextRequest, sender).then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "REGISTER_ZONE_FRAME") {
+    registerZoneFrame(sender).then(() => sendResponse({ ok: true }));
+    return true;
+  }
+
+  if (msg.type === "COLLECT_FRAME_ZONES") {
+    handleCollectFrameZones(msg as CollectFrameZonesRequest, sender).then(sendResponse);
+    return true;
+  }
+
+  if (msg.type === "FILL_FRAME_ZONE") {
+    handleFillFrameZone(msg as FillFrameZoneRequest, sender).then(sendResponse);
+    return true;
+  }
+});
+
+/**
+ * Relay a cross-origin iframe's request for page context to the top frame of
+ * the same tab (frameId 0), which can read the job title / company heading.
+ */
+async function handleGetFrameContext(
+  msg: GetFrameContextRequest,
+  sender: chrome.runtime.MessageSender,
+): Promise<GetFrameContextResponse> {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined || !sender.frameId) return { context: null };
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, { type: "GET_PAGE_CONTEXT" }, { frameId: 0 }, (context?: PageContext) => {
+      if (chrome.runtime.lastError || !context) {
+        resolve({ context: null });
+        return;
+      }
+      if (msg.workflowId) {
+        logWorkflowStep(msg.workflowId, "frame_context.relayed", {
+          fromFrameId: sender.frameId,
+          topUrl: context.url,
+        });
+      }
+      resolve({ context });
+    });
+  });
+}
+
+// ---- Fill all across frames ----
+
+/**
+ * "<prefix><tabId>:<frameId>" in session storage for every cross-origin frame
+ * that has upload zones — the service worker forgets its memory between
+ * events, and only the frame's own messages reveal its frameId.
+ */
+const ZONE_FRAME_PREFIX = "xupload-zone-frame:";
+
+async function registerZoneFrame(sender: chrome.runtime.MessageSender): Promise<void> {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined || !sender.frameId) return;
+  await chrome.storage.session.set({ [`${ZONE_FRAME_PREFIX}${tabId}:${sender.frameId}`]: true });
+}
+
+async function zoneFrameKeys(tabId: number): Promise<string[]> {
+  const prefix = `${ZONE_FRAME_PREFIX}${tabId}:`;
+  return Object.keys(await chrome.storage.session.get(null)).filter((key) => key.startsWith(prefix));
+}
+
+/** Message one frame of a tab; undefined when it's gone or has no content script */
+function sendToFrame<T>(tabId: number, frameId: number, msg: unknown): Promise<T | undefined> {
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, msg, { frameId }, (resp?: T) => {
+      resolve(chrome.runtime.lastError ? undefined : resp);
+    });
+  });
+}
+
+/**
+ * Zones and recommendations of every registered cross-origin frame in the
+ * top frame's tab, for its Fill-all review sheet. Frames that stopped
+ * answering are forgotten.
+ */
+async function handleCollectFrameZones(
+  msg: CollectFrameZonesRequest,
+  sender: chrome.runtime.MessageSender,
+): Promise<FrameZonesResponse> {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined || sender.frameId !== 0) return { zones: [] };
+  const replies = await Promise.all((await zoneFrameKeys(tabId)).map(async (key) => {
+    const frameId = Number(key.slice(key.lastIndexOf(":") + 1));
+    const resp = await sendToFrame<FrameZonesResponse>(tabId, frameId, { type: "GET_FRAME_ZONES", workflowId: msg.workflowId });
+    if (!resp) {
+      await chrome.storage.session.remove(key);
+      return [];
+    }
+    return resp.zones.map((zone): FrameZone => ({ ...zone, frameId }));
+  }));
+  const zones = replies.flat();
+  if (msg.workflowId) {
+    logWorkflowStep(msg.workflowId, "fill_all.frames.collected", { frames: replies.length, zones: zones.length });
+  }
+  return { zones };
+}
+
+/** Fill an approved row of the top frame's review sheet in the frame that owns the zone */
+async function handleFillFrameZone(
+  msg: FillFrameZoneRequest,
+  sender: chrome.runtime.MessageSender,
+): Promise<FillFrameZoneResponse> {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined || sender.frameId !== 0) return { ok: false };
+  const resp = await sendToFrame<FillFrameZoneResponse>(tabId, msg.frameId, {
+    type: "FILL_ZONE",
+    zoneId: msg.zoneId,
+    result: msg.result,
+    workflowId: msg.workflowId,
+  });
+  return { ok: !!resp?.ok };
+}
+
+chrome.tabs.onRemoved.addListener(async (tabId) => {
+  const keys = await zoneFrameKeys(tabId);
+  if (keys.length > 0) await chrome.storage.session.remove(keys);
 });
 
+/** Most terms shown in a result's "why?" view */
+const MAX_MATCHED_TERMS = 8;
+
+/** Context tokens that also occur in the file's path or text preview, highest field weight first */
+function matchedContextTerms(record: VectorRecord, contextTokens: Map<string, number>): string[] {
+  const fileTokens = new Set([
+    ...tokenizeFiltered(record.path.replace(/[/\\._-]/g, " ")),
+    ...tokenizeFiltered(record.textPreview),
+  ]);
+  return [...contextTokens.entries()]
+    .filter(([term]) => fileTokens.has(term))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_MATCHED_TERMS)
+    .map(([term]) => term);
+}
+
+// ---- Learned ranking weights ----
+
+/**
+ * Attach a pick to the recommendation list it came from and refit the
+ * weights. Below MIN_TRAINING_EVENTS labelled lists the fit returns null and
+ * handleMatch keeps using the default tables.
+ */
+async function learnFromPick(rankingEventId: string, fileId: string): Promise<void> {
+  try {
+    const found = await recordRankingPick(rankingEventId, fileId);
+    if (!found) return;
+    const model = trainRankingModel(await getRankingEvents());
+    await saveRankingModel(model);
+    logWorkflowStep(rankingEventId, "ranking.model.updated", model
+      ? { trainedOn: model.trainedOn, weights: model.weights }
+      : { trainedOn: 0, fallback: "default" });
+  } catch (err) {
+    logWorkflowError(rankingEventId, "ranking.model.update_failed", err);
+  }
+}
+
+async function getRankingStatus(): Promise<RankingStatusResponse> {
+  const events = await getRankingEvents();
+  return {
+    labelledEvents: events.filter(isLabelled).length,
+    minEvents: MIN_TRAINING_EVENTS,
+    model: await getRankingModel(),
+  };
+}
+
+// ---- Native file-picker picks ----
+
+/**
+ * How much a past upload counts toward history and path-memory boosts, by
+ * how it was made. Native picks are matched back by name/size/mtime, which
+ * is slightly less certain than a file chosen from our own panel.
+ */
+const HISTORY_SOURCE_WEIGHTS: Record<UploadSource, number> = {
+  xupload: 1.0,
+  native: 0.8,
+};
+
+function historySourceWeight(entry: UploadHistoryEntry): number {
+  return HISTORY_SOURCE_WEIGHTS[entry.source || "xupload"];
+}
+
+/**
+ * Record files picked through the site's own file dialog. Each picked file is
+ * matched to an indexed record by name, size and lastModified; files that
+ * aren't indexed, or match more than one record (identical copies in two
+ * folders), are skipped.
+ */
+async function handleTrackNativeUpload(req: TrackNativeUploadRequest): Promise<TrackNativeUploadResponse> {
+  const workflowId = req.workflowId || createWorkflowId("native-bg");
+  try {
+    const host = new URL(req.pageUrl).hostname;
+    const records = await getAll();
+    const byStat = new Map<string, VectorRecord[]>();
+    for (const r of records) {
+      const key = `${r.name}|${r.size}|${r.lastModified}`;
+      const bucket = byStat.get(key);
+      if (bucket) bucket.push(r);
+      else byStat.set(key, [r]);
+    }
+
+    const matched: VectorRecord[] = [];
+    let ambiguous = 0;
+    for (const f of req.files) {
+      const candidates = byStat.get(`${f.name}|${f.size}|${f.lastModified}`) || [];
+      if (candidates.length === 1) matched.push(candidates[0]);
+      else if (candidates.length > 1) ambiguous++;
+    }
+
+    const timestamp = Date.now();
+    for (const r of matched) {
+      await addUploadHistory({
+        fileId: r.id,
+        fileName: r.name,
+        fileType: r.type,
+        websiteHost: host,
+        pageUrl: req.pageUrl,
+        pageTitle: req.pageTitle,
+        uploadContext: req.uploadContext,
+        timestamp,
+        source: "native",
+      });
+      await saveUsedPath(host, r.path);
+    }
+
+    logWorkflowStep(workflowId, "native_upload.tracked", {
+      host,
+      picked: req.files.length,
+      matched: matched.map((r) => r.id),
+      ambiguous,
+    });
+    return { matchedIds: matched.map((r) => r.id) };
+  } catch (err) {
+    logWorkflowError(workflowId, "native_upload.failed", err);
+    return { matchedIds: [] };
+  }
+}
+
+// ---- Negative feedback ("not this file") ----
+
+/** Path segments of the page a dismissal is scoped to */
+const DISMISS_PREFIX_SEGMENTS = 2;
+/** A dismissal stops counting after this long */
+const DISMISS_DECAY_DAYS = 180;
+/** Weight of the penalty term subtracted from the final score */
+const DISMISS_PENALTY_WEIGHT = 0.5;
+
+async function handleDismissSuggestion(req: DismissSuggestionRequest): Promise<void> {
+  const url = new URL(req.pageUrl);
+  const urlPrefix = "/" + urlPathSegments(req.pageUrl).slice(0, DISMISS_PREFIX_SEGMENTS).join("/");
+  await addNegativeFeedback(url.hostname, urlPrefix, req.fileId);
+  if (req.workflowId) {
+    logWorkflowStep(req.workflowId, "feedback.dismissed", {
+      fileId: req.fileId,
+      host: url.hostname,
+      urlPrefix,
+    });
+  }
+}
+
+/**
+ * Per-file penalty (0–1) from dismissals on this host. Stronger when the
+ * dismissal was on the same URL prefix (urlPrefixWeight), repeated, and
+ * recent. A file uploaded after its last dismissal here is forgiven.
+ */
+function computeDismissPenalties(
+  dismissals: NegativeFeedbackEntry[],
+  currentPathSegments: string[],
+  lastUploads: Map<string, { lastTs: number }>,
+  now: number,
+): Map<string, number> {
+  const ONE_DAY = 24 * 60 * 60 * 1000;
+  const penalties = new Map<string, number>();
+  for (const d of dismissals) {
+    const upload = lastUploads.get(d.fileId);
+    if (upload && upload.lastTs > d.lastDismissed) continue;
+    const urlWeight = urlPrefixWeight(currentPathSegments, `https://${d.websiteHost}${d.urlPrefix}`);
+    const decay = Math.max(0, 1 - (now - d.lastDismissed) / ONE_DAY / DISMISS_DECAY_DAYS);
+    const strength = Math.min(1, 0.5 * d.count);
+    const penalty = urlWeight * decay * strength;
+    penalties.set(d.fileId, Math.max(penalties.get(d.fileId) || 0, penalty));
+  }
+  return penalties;
+}
+
+// ---- Search-as-you-type (panel search box) ----
+
+const SEARCH_LIMIT = 8;
+
+async function handleSearch(req: SearchRequest): Promise<SearchResponse> {
+  const workflowId = req.workflowId || createWorkflowId("search-bg");
+  try {
+    const records = filterByAccept(await getEnabledRecords(), req.accept);
+    const hits = fuzzySearch(records, req.query, req.limit || SEARCH_LIMIT);
+    logWorkflowStep(workflowId, "search.done", {
+      query: req.query,
+      candidateCount: records.length,
+      returnedCount: hits.length,
+    });
+    return {
+      type: "SEARCH_RESPONSE",
+      workflowId,
+      results: hits.map((h) => ({
+        id: h.record.id,
+        name: h.record.name,
+        path: h.record.path,
+        type: h.record.type,
+        score: h.score,
+        highlights: h.highlights,
+      })),
+    };
+  } catch (err) {
+    logWorkflowError(workflowId, "search.failed", err);
+    return { type: "SEARCH_RESPONSE", workflowId, results: [] };
+  }
+}
+
 // ---- Multi-level recommendation ----
 
 /**
  * Compute keyword overlap between file path and page context.
- * Uses filtered tokens (no stop words) and Jaccard-like scoring.
+ * Uses filtered tokens (no stop words) and Jaccard-like scoring. Each matched
+ * token counts with its context-field weight (see contextTokenWeights), so a
+ * match on the field label outweighs one in generic zone text; capped at 1.
  */
-function computePathNameScore(filePath: string, context: string): number {
+function computePathNameScore(filePath: string, contextTokens: Map<string, number>): number {
   const pathTokens = new Set(tokenizeFiltered(filePath.replace(/[/\\._-]/g, " ")));
-  const contextTokens = new Set(tokenizeFiltered(context));
   if (pathTokens.size === 0 || contextTokens.size === 0) return 0;
 
   let matches = 0;
   for (const t of pathTokens) {
-    if (contextTokens.has(t)) matches++;
+    matches += contextTokens.get(t) || 0;
   }
 
   // Use the smaller set as denominator (Overlap coefficient)
   // This prevents dilution when one side has many more tokens
   const minSize = Math.min(pathTokens.size, contextTokens.size);
-  return matches / minSize;
+  return Math.min(1, matches / minSize);
 }
 
 /**
  * Compute keyword overlap between file content/preview and page context.
- * Uses filtered tokens (no stop words) and Overlap coefficient.
+ * Uses filtered tokens (no stop words) and Overlap coefficient, with the same
+ * per-field token weights as computePathNameScore.
  */
-function computeContentOverlap(textPreview: string, context: string): number {
+function computeContentOverlap(textPreview: string, contextTokens: Map<string, number>): number {
   const fileTokens = new Set(tokenizeFiltered(textPreview));
-  const contextTokens = new Set(tokenizeFiltered(context));
   if (fileTokens.size === 0 || contextTokens.size === 0) return 0;
 
   let matches = 0;
-  for (const t of contextTokens) {
-    if (fileTokens.has(t)) matches++;
+  for (const [t, weight] of contextTokens) {
+    if (fileTokens.has(t)) matches += weight;
   }
 
   // Overlap coefficient: matches / min(|A|, |B|)
   const minSize = Math.min(fileTokens.size, contextTokens.size);
-  return matches / minSize;
+  return Math.min(1, matches / minSize);
 }
 
-async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
+/**
+ * Folder of an indexed file, for path memory: the file ID up to its last
+ * "/", or the root itself for files at the top of a root — so top-level
+ * files of different roots don't share one bucket.
+ */
+function folderKey(fileId: string): string {
+  const slash = fileId.lastIndexOf("/");
+  return slash === -1 ? parseFileId(fileId).rootId : fileId.slice(0, slash);
+}
+
+/** Dense nearest neighbours added to the candidate pool next to the TF-IDF ones */
+const DENSE_CANDIDATES = 15;
+
+/** Query embedding plus the model that produced it — only same-model records are compared */
+interface DenseQuery {
+  vector: number[];
+  model: string;
+}
+
+/**
+ * Rank indexed files for an upload field. Every mode goes through here: in
+ * fast/VLM modes handleMatchEnhanced passes the query embedding, and dense
+ * similarity becomes one more signal next to TF-IDF, history, path overlap
+ * and folder memory. Signals are combined per the configured fusion method.
+ */
+async function handleMatch(req: MatchRequest, denseQuery?: DenseQuery): Promise<MatchResponse> {
   const workflowId = req.workflowId || createWorkflowId("match-bg");
   const servicesCalled = new Set<string>();
 
   logWorkflowStep(workflowId, "match.start", {
+    dense: denseQuery?.model || false,
     contextPreview: req.context.slice(0, 140),
+    contextFields: req.contextFields ? Object.keys(req.contextFields) : "(flat)",
     accept: req.accept || "(none)",
     pageUrl: req.pageUrl || "(none)",
   });
@@ -210,7 +702,11 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
     servicesCalled.add("background.ensureVocab");
     await ensureVocab();
 
-    const queryTokens = tokenize(req.context);
+    // Structured context: field-weighted query tokens; flat context otherwise
+    const queryTokens = req.contextFields
+      ? weightedQueryTokens(req.contextFields)
+      : tokenize(req.context);
+    const contextTokens = contextTokenWeights(req.contextFields, req.context);
     const queryVec = vectorize(queryTokens);
     logWorkflowStep(workflowId, "service.tfidf.vectorize", {
       queryTokenCount: queryTokens.length,
@@ -232,10 +728,28 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
       tfidfUseful,
     });
 
+    // Dense similarity for every record with an embedding (fast/VLM modes)
+    const denseScores = new Map<string, number>();
+    let denseResults: SearchResult[] = [];
+    if (denseQuery) {
+      servicesCalled.add("vectordb.denseSearch");
+      denseResults = await denseSearch(denseQuery.vector, denseQuery.model, Infinity, req.accept);
+      for (const r of denseResults) denseScores.set(r.record.id, r.score);
+      logWorkflowStep(workflowId, "service.vectordb.denseSearch.done", {
+        candidateCount: denseResults.length,
+        maxDense: roundScore(denseResults[0]?.score || 0),
+      });
+    }
+
     let allRecords = tfidfResults;
-    if (!tfidfUseful) {
-      servicesCalled.add("vectordb.getAll");
-      const all = await getAll();
+    if (tfidfUseful) {
+      const pooled = new Set(tfidfResults.map((r) => r.record.id));
+      for (const r of denseResults.slice(0, DENSE_CANDIDATES)) {
+        if (!pooled.has(r.record.id)) allRecords.push({ record: r.record, score: 0 });
+      }
+    } else {
+      servicesCalled.add("vectordb.getEnabledRecords");
+      const all = await getEnabledRecords();
       allRecords = all.map((record) => ({ record, score: 0 }));
       logWorkflowStep(workflowId, "ranking.fallback.path_content", {
         reason: "tfidf_low_signal",
@@ -266,56 +780,58 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
     // Parse current page path segments for URL-based weighting.
     // e.g. "https://gradescope.com/courses/12345/assignments/5"
     //   → ["courses", "12345", "assignments", "5"]
-    const currentPathSegments: string[] = [];
-    if (req.pageUrl) {
-      try {
-        currentPathSegments.push(...new URL(req.pageUrl).pathname.split("/").filter(Boolean));
-      } catch { /* ignore */ }
-    }
+    const currentPathSegments = req.pageUrl ? urlPathSegments(req.pageUrl) : [];
 
-    // Count how many uploads came from each folder, weighted by URL similarity.
-    // This gives course-level granularity on multi-course sites (Gradescope, Canvas, etc.)
-    // without needing to know anything about site structure.
-    //
-    // Weighting rules (matching leading path segments):
-    //   ≥2 segments match → 1.0  (same course/section, e.g. /courses/12345/...)
-    //    1 segment matches → 0.4  (same site section but different id)
-    //    0 segments match  → 0.1  (same hostname only — very weak signal)
+    // Count how many uploads came from each folder, weighted by URL similarity
+    // (see urlPrefixWeight). This gives course-level granularity on
+    // multi-course sites (Gradescope, Canvas, etc.) without needing to know
+    // anything about site structure.
     const folderFreq = new Map<string, number>();
     for (const h of history) {
-      let weight = 1.0;
-      if (currentPathSegments.length > 0 && h.pageUrl) {
-        try {
-          const histSegments = new URL(h.pageUrl).pathname.split("/").filter(Boolean);
-          let matches = 0;
-          for (let i = 0; i < Math.min(currentPathSegments.length, histSegments.length); i++) {
-            if (currentPathSegments[i] === histSegments[i]) matches++;
-            else break;
-          }
-          weight = matches >= 2 ? 1.0 : matches === 1 ? 0.4 : 0.1;
-        } catch { /* keep weight = 1.0 */ }
-      }
-      const parts = h.fileId.split("/");
-      const folder = parts.length > 1 ? parts.slice(0, -1).join("/") : "";
+      const weight = urlPrefixWeight(currentPathSegments, h.pageUrl) * historySourceWeight(h);
+      const folder = folderKey(h.fileId);
       folderFreq.set(folder, (folderFreq.get(folder) || 0) + weight);
     }
     const totalFolderUploads = [...folderFreq.values()].reduce((a, b) => a + b, 0);
-    const historyMap = new Map<string, { count: number; lastTs: number }>();
+    // sourceWeight: the strongest way this file was ever uploaded here
+    const historyMap = new Map<string, { count: number; lastTs: number; sourceWeight: number }>();
     for (const h of history) {
       const existing = historyMap.get(h.fileId);
       if (!existing) {
-        historyMap.set(h.fileId, { count: 1, lastTs: h.timestamp });
+        historyMap.set(h.fileId, { count: 1, lastTs: h.timestamp, sourceWeight: historySourceWeight(h) });
       } else {
         existing.count++;
         existing.lastTs = Math.max(existing.lastTs, h.timestamp);
+        existing.sourceWeight = Math.max(existing.sourceWeight, historySourceWeight(h));
       }
     }
 
     const ONE_DAY = 24 * 60 * 60 * 1000;
     const now = Date.now();
 
-    const ranked = allRecords.map((r) => {
+    let dismissPenalties = new Map<string, number>();
+    if (pageHost) {
+      servicesCalled.add("vectordb.getNegativeFeedbackByHost");
+      const dismissals = await getNegativeFeedbackByHost(pageHost);
+      dismissPenalties = computeDismissPenalties(dismissals, currentPathSegments, historyMap, now);
+      logWorkflowStep(workflowId, "service.feedback.lookup.done", {
+        host: pageHost,
+        dismissals: dismissals.length,
+        penalizedFiles: dismissPenalties.size,
+      });
+    }
+
+    servicesCalled.add("vectordb.getRankingModel");
+    const rankingModel = await getRankingModel();
+    const fusion = (await getApiConfig()).fusion || "weighted";
+    logWorkflowStep(workflowId, "ranking.weights", rankingModel
+      ? { source: "learned", trainedOn: rankingModel.trainedOn, weights: rankingModel.weights, fusion }
+      : { source: "default", fusion });
+
+    const scored = allRecords.map((r) => {
       const tfidfScore = r.score;
+      const denseScore = denseScores.get(r.record.id) || 0;
+      const hasDense = !!denseQuery && isDenseCompatible(r.record, denseQuery.model, denseQuery.vector.length);
 
       let historyBoost = 0;
       let historyCount = 0;
@@ -323,40 +839,38 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
       if (hist) {
         historyCount = hist.count;
         const daysAgo = (now - hist.lastTs) / ONE_DAY;
-        historyBoost = Math.max(0.1, 1.0 - daysAgo / 90);
+        historyBoost = Math.max(0.1, 1.0 - daysAgo / 90) * hist.sourceWeight;
       }
 
-      const pathNameScore = computePathNameScore(r.record.path, req.context);
-      const contentOverlap = computeContentOverlap(r.record.textPreview, req.context);
+      const pathNameScore = computePathNameScore(r.record.path, contextTokens);
+      const contentOverlap = computeContentOverlap(r.record.textPreview, contextTokens);
       // Folder-frequency boost: 0.0–1.0 based on what fraction of past
       // uploads on this site came from the same folder as this candidate.
-      const candidateParts = r.record.path.split("/");
-      const candidateFolder = candidateParts.length > 1 ? candidateParts.slice(0, -1).join("/") : "";
+      // IDs rather than paths, so same-named folders in two roots stay apart.
       const folderBoost = totalFolderUploads > 0
-        ? (folderFreq.get(candidateFolder) || 0) / totalFolderUploads
+        ? (folderFreq.get(folderKey(r.record.id)) || 0) / totalFolderUploads
         : 0;
       const hasHistory = historyBoost > 0;
 
-      const weights = tfidfUseful
-        ? (hasHistory
-          ? { tfidf: 0.42, history: 0.28, path: 0.14, content: 0.08, pathMemory: 0.08 }
-          : { tfidf: 0.56, history: 0.00, path: 0.22, content: 0.14, pathMemory: 0.08 })
-        : (hasHistory
-          ? { tfidf: 0.00, history: 0.36, path: 0.30, content: 0.20, pathMemory: 0.14 }
-          : { tfidf: 0.00, history: 0.00, path: 0.44, content: 0.42, pathMemory: 0.14 });
-
-      const finalScore =
-        tfidfScore * weights.tfidf +
-        historyBoost * weights.history +
-        pathNameScore * weights.path +
-        contentOverlap * weights.content +
-        folderBoost * weights.pathMemory;
+      // TF-IDF scores are noise when nothing matched well, so the signal is
+      // zeroed rather than left for the weights to cancel out
+      const features: RankingFeatures = {
+        dense: denseScore,
+        tfidf: tfidfUseful ? tfidfScore : 0,
+        history: historyBoost,
+        path: pathNameScore,
+        content: contentOverlap,
+        pathMemory: folderBoost,
+      };
+      const weights = withDenseShare(rankingModel?.weights ?? defaultWeights(tfidfUseful, hasHistory), hasDense);
 
       return {
         ...r,
-        score: finalScore,
         historyCount,
+        features,
+        weights,
         debug: {
+          denseScore,
           tfidfScore,
           historyBoost,
           pathNameScore,
@@ -367,21 +881,59 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
       };
     });
 
+    const fused = fuseScores(scored, fusion);
+    const ranked = scored.map((r, i) => {
+      // "Not this file" dismissals on this site/section pull the score down
+      const dismissPenalty = dismissPenalties.get(r.record.id) || 0;
+      const finalScore = Math.max(0, fused[i].score - dismissPenalty * DISMISS_PENALTY_WEIGHT);
+      return { ...r, score: finalScore, ranks: fused[i].ranks, dismissPenalty };
+    });
+
     ranked.sort((a, b) => b.score - a.score);
     const top = ranked.slice(0, 5).filter((r) => r.score > 0);
 
+    // Log what was shown so a later pick (TRACK_UPLOAD) can train the weights
+    let rankingEventId: string | undefined;
+    if (pageHost && req.workflowId && top.length > 1) {
+      try {
+        servicesCalled.add("vectordb.addRankingEvent");
+        await addRankingEvent({
+          id: workflowId,
+          timestamp: now,
+          websiteHost: pageHost,
+          candidates: top.map((r) => ({ fileId: r.record.id, features: r.features })),
+          pickedFileIds: [],
+        });
+        rankingEventId = workflowId;
+      } catch (err) {
+        logWorkflowError(workflowId, "ranking.event.log_failed", err);
+      }
+    }
+
+    const bundle = req.pageUrl ? await buildUploadBundle(history, req.pageUrl) : undefined;
+    if (bundle) {
+      servicesCalled.add("bundles.mineUploadBundle");
+      logWorkflowStep(workflowId, "ranking.bundle", {
+        members: bundle.members.map((m) => m.name),
+        sessions: bundle.sessions,
+      });
+    }
+
     logWorkflowStep(workflowId, "ranking.breakdown.top_candidates", ranked.slice(0, 10).map((r, idx) => ({
       rank: idx + 1,
       file: r.record.name,
       path: r.record.path,
       finalScore: roundScore(r.score),
+      denseScore: roundScore(r.debug.denseScore),
       tfidfScore: roundScore(r.debug.tfidfScore),
       historyBoost: roundScore(r.debug.historyBoost),
       pathNameScore: roundScore(r.debug.pathNameScore),
       contentOverlap: roundScore(r.debug.contentOverlap),
       folderBoost: roundScore(r.debug.folderBoost),
+      dismissPenalty: roundScore(r.dismissPenalty),
       historyCount: r.historyCount,
       weights: r.debug.weights,
+      ranks: r.ranks,
     })));
 
     logWorkflowStep(workflowId, "match.services_called", Array.from(servicesCalled));
@@ -401,7 +953,18 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
         type: r.record.type,
         score: r.score,
         historyCount: r.historyCount,
+        explanation: {
+          signals: r.features,
+          weights: r.debug.weights,
+          weightSource: rankingModel ? "learned" : "default",
+          fusion,
+          ranks: r.ranks,
+          dismissPenalty: r.dismissPenalty * DISMISS_PENALTY_WEIGHT,
+          matchedTerms: matchedContextTerms(r.record, contextTokens),
+        },
       })),
+      bundle,
+      rankingEventId,
     };
   } catch (err) {
     logWorkflowError(workflowId, "match.failed", err);
@@ -409,14 +972,34 @@ async function handleMatch(req: MatchRequest): Promise<MatchResponse> {
   }
 }
 
-// ---- Helper to read config ----
-
-async function getApiConfig(): Promise<XUploadConfig> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get("xupload_config", (data) => {
-      resolve(data.xupload_config || { apiKey: "", mode: "tfidf" });
+/**
+ * Turn the most frequent co-upload set for this page into an UploadBundle,
+ * dropping files that are no longer indexed. Needs at least two live members.
+ */
+async function buildUploadBundle(
+  history: UploadHistoryEntry[],
+  pageUrl: string,
+): Promise<UploadBundle | undefined> {
+  const candidate = mineUploadBundle(history, pageUrl);
+  if (!candidate) return undefined;
+
+  const members: UploadBundle["members"] = [];
+  for (const fileId of candidate.fileIds) {
+    const record = await getById(fileId);
+    if (!record) continue;
+    members.push({
+      id: record.id,
+      name: record.name,
+      path: record.path,
+      type: record.type,
+      score: candidate.support / Math.max(1, candidate.sessions),
+      historyCount: candidate.sessions,
+      contexts: candidate.contexts.get(fileId) || [],
     });
-  });
+  }
+  if (members.length < 2) return undefined;
+
+  return { members, sessions: candidate.sessions, lastUsed: candidate.lastUsed };
 }
 
 // ---- Enhanced match (fast/vlm modes using Gemini) ----
@@ -432,12 +1015,14 @@ async function handleMatchEnhanced(req: MatchRequestEnhanced): Promise<MatchResp
   });
 
   const config = await getApiConfig();
-  if (!config.apiKey) {
+  const embedder = getEmbeddingProvider(config);
+  if (!embedder) {
     // Fallback to TF-IDF
-    logWorkflowStep(workflowId, "match.enhanced.fallback", { reason: "missing_api_key" });
+    logWorkflowStep(workflowId, "match.enhanced.fallback", { reason: "provider_not_configured" });
     return handleMatch({
       type: "MATCH_REQUEST",
       context: req.context,
+      contextFields: req.contextFields,
       accept: req.accept,
       pageUrl: req.pageUrl,
       workflowId,
@@ -447,187 +1032,113 @@ async function handleMatchEnhanced(req: MatchRequestEnhanced): Promise<MatchResp
   let queryText = req.context;
 
   // VLM mode: use screenshot to generate richer description
-  if (req.mode === "vlm" && req.screenshotBase64) {
+  const vision = getVisionProvider(config);
+  if (req.mode === "vlm" && req.screenshotBase64 && vision) {
     try {
-      servicesCalled.add("gemini.describeWithVLM");
-      logWorkflowStep(workflowId, "service.gemini.describeWithVLM.start");
-      const description = await describeWithVLM(req.screenshotBase64, req.context, config.apiKey);
-      logWorkflowStep(workflowId, "service.gemini.describeWithVLM.done", {
+      servicesCalled.add(`${vision.id}.describe`);
+      logWorkflowStep(workflowId, "service.vision.describe.start", { provider: vision.id });
+      const description = await vision.describe(req.screenshotBase64, req.context);
+      logWorkflowStep(workflowId, "service.vision.describe.done", {
         descriptionPreview: description.slice(0, 160),
       });
       queryText = `${description} ${req.context}`;
     } catch (err) {
-      logWorkflowError(workflowId, "service.gemini.describeWithVLM.failed", err);
+      logWorkflowError(workflowId, "service.vision.describe.failed", err);
     }
   }
 
   // Get query embedding
+  let queryVec: number[];
   try {
-    servicesCalled.add("gemini.getEmbedding");
-    logWorkflowStep(workflowId, "service.gemini.getEmbedding.start");
-    const queryVec = await getEmbedding(queryText, config.apiKey);
-
-    servicesCalled.add("vectordb.denseSearch");
-    const results = await denseSearch(queryVec, 5, req.accept);
-    logWorkflowStep(workflowId, "service.vectordb.denseSearch.done", {
+    servicesCalled.add(`${embedder.id}.embed`);
+    logWorkflowStep(workflowId, "service.embedding.embed.start", { provider: embedder.id });
+    queryVec = await embedder.embed(queryText);
+    logWorkflowStep(workflowId, "service.embedding.embed.done", {
       queryVectorSize: queryVec.length,
-      candidateCount: results.length,
-    });
-
-    if (results.length === 0) {
-      logWorkflowStep(workflowId, "match.enhanced.fallback", { reason: "dense_no_results" });
-      return handleMatch({
-        type: "MATCH_REQUEST",
-        context: req.context,
-        accept: req.accept,
-        pageUrl: req.pageUrl,
-        workflowId,
-      });
-    }
-
-    // Get upload history for scoring
-    let history: UploadHistoryEntry[] = [];
-    if (req.pageUrl) {
-      try {
-        const host = new URL(req.pageUrl).hostname;
-        servicesCalled.add("vectordb.getHistoryByHost");
-        history = await getHistoryByHost(host);
-      } catch { /* ignore */ }
-    }
-    const historyMap = new Map<string, number>();
-    for (const h of history) {
-      historyMap.set(h.fileId, (historyMap.get(h.fileId) || 0) + 1);
-    }
-
-    logWorkflowStep(workflowId, "match.enhanced.services_called", Array.from(servicesCalled));
-    logWorkflowStep(workflowId, "match.enhanced.done", {
-      returnedCount: results.length,
-      top: results.map((r) => `${r.record.name} (${Math.round(r.score * 100)}%)`),
     });
-
-    return {
-      type: "MATCH_RESPONSE",
-      workflowId,
-      results: results.map((r) => ({
-        id: r.record.id,
-        name: r.record.name,
-        path: r.record.path,
-        type: r.record.type,
-        score: r.score,
-        historyCount: historyMap.get(r.record.id) || 0,
-      })),
-    };
   } catch (err) {
     logWorkflowError(workflowId, "match.enhanced.failed", err);
     // Fallback to TF-IDF
     return handleMatch({
       type: "MATCH_REQUEST",
       context: req.context,
+      contextFields: req.contextFields,
       accept: req.accept,
       pageUrl: req.pageUrl,
       workflowId,
     });
   }
-}
 
-interface FileEntry {
-  path: string;
-  name: string;
-  type: string;
-  size: number;
-  lastModified: number;
-  text: string;
+  // Dense similarity joins the usual signals in the shared ranking pipeline
+  logWorkflowStep(workflowId, "match.enhanced.services_called", Array.from(servicesCalled));
+  return handleMatch({
+    type: "MATCH_REQUEST",
+    context: req.context,
+    contextFields: req.contextFields,
+    accept: req.accept,
+    pageUrl: req.pageUrl,
+    workflowId,
+  }, { vector: queryVec, model: embedder.id });
 }
 
-async function handleBuildIndex(files: FileEntry[], workflowId: string = createWorkflowId("scan-bg")) {
-  const servicesCalled = new Set<string>([
-    "embeddings.tokenize",
-    "embeddings.buildVocabulary",
-    "vectordb.clearAll",
-    "vectordb.upsert",
-    "vectordb.saveVocab",
-    "chrome.storage.local.set:vocab",
-    "vectordb.getCount",
-  ]);
-
-  logWorkflowStep(workflowId, "scan.background.start", {
-    fileCount: files.length,
-    mode: "full",
-  });
-
+/**
+ * Index a folder the content script walked (inline "scan folder" on a page).
+ * Pages can't hand their directory handle to the extension, so the folder
+ * updates the root the user chose on the page, or becomes a new root without
+ * a stored handle.
+ */
+async function handleBuildIndex(req: BuildIndexRequest): Promise<BuildIndexResponse> {
+  const workflowId = req.workflowId || createWorkflowId("scan-bg");
+  const rootName = req.rootName || "Scanned folder";
+  logWorkflowStep(workflowId, "scan.background.start", { fileCount: req.files.length, rootName, rootId: req.rootId });
+  const startedAt = Date.now();
+  let rootId: string | undefined;
   try {
-    // Phase 1: TF-IDF (always)
-    const allTokens = files.map((f) => tokenize(f.text));
-    buildVocabulary(allTokens);
-    logWorkflowStep(workflowId, "scan.phase.tfidf.done", {
-      tokenizedFiles: allTokens.length,
+    const root = req.rootId ? await getRoot(req.rootId) : await addRoot(rootName);
+    if (!root) throw new Error("The folder to update is no longer indexed.");
+    rootId = root.id;
+    const result = await commitIndex(root.id, req.files, {
+      excluded: req.excluded,
+      unreadable: req.unreadable,
+      workflowId,
     });
-
-    await clearAll();
-    logWorkflowStep(workflowId, "service.vectordb.clearAll.done");
-
-    // Phase 2: Dense embeddings (if API key configured)
-    const config = await getApiConfig();
-    servicesCalled.add("chrome.storage.local.get:xupload_config");
-    let denseVectors: (number[] | undefined)[] = new Array(files.length).fill(undefined);
-
-    if (config.apiKey && config.mode !== "tfidf") {
-      servicesCalled.add("gemini.batchEmbed");
-      logWorkflowStep(workflowId, "service.gemini.batchEmbed.start", {
-        fileCount: files.length,
-        mode: config.mode,
-      });
-      try {
-        const texts = files.map((f) => f.text.slice(0, 2000));
-        const vectors = await batchEmbed(texts, config.apiKey, 10, (done, total) => {
-          logWorkflowStep(workflowId, "service.gemini.batchEmbed.progress", { done, total });
-        });
-        denseVectors = vectors;
-        logWorkflowStep(workflowId, "service.gemini.batchEmbed.done", {
-          vectorCount: vectors.length,
-        });
-      } catch (err) {
-        logWorkflowError(workflowId, "service.gemini.batchEmbed.failed", err);
-      }
-    }
-
-    // Phase 3: Store records
-    for (let i = 0; i < files.length; i++) {
-      const f = files[i];
-      const vec = vectorize(allTokens[i]);
-      await upsert({
-        id: f.path,
-        name: f.name,
-        path: f.path,
-        type: f.type,
-        size: f.size,
-        lastModified: f.lastModified,
-        vector: vec,
-        denseVector: denseVectors[i],
-        textPreview: f.text.slice(0, 500),
-      });
+    await saveScanReport(root.id, { trigger: "page", finishedAt: Date.now(), durationMs: Date.now() - startedAt, result });
+    logWorkflowStep(workflowId, "scan.background.done", { indexedCount: result.total });
+    return { ok: true, result, workflowId };
+  } catch (err: any) {
+    logWorkflowError(workflowId, "scan.background.failed", err);
+    const error = err?.message || String(err);
+    if (rootId) {
+      await saveScanReport(rootId, { trigger: "page", finishedAt: Date.now(), durationMs: Date.now() - startedAt, error })
+        .catch(() => {});
     }
-    logWorkflowStep(workflowId, "service.vectordb.upsert.done", {
-      upserted: files.length,
-    });
+    return { ok: false, error, workflowId };
+  }
+}
 
-    const vocab = exportVocab();
-    await saveVocab(vocab);
-    await new Promise<void>((resolve) => {
-      chrome.storage.local.set({ vocab }, resolve);
-    });
-    logWorkflowStep(workflowId, "service.vocab.persist.done", {
-      termCount: vocab.terms.length,
+/** Roots named like a folder a page is about to scan, newest scan first, for the user to choose from */
+async function handleFindRoots(req: FindRootsRequest): Promise<FindRootsResponse> {
+  const matches = (await getRoots())
+    .filter((r) => r.name === req.name)
+    .sort((a, b) => b.lastScanTimestamp - a.lastScanTimestamp);
+  const roots: RootChoice[] = [];
+  for (const r of matches) {
+    roots.push({
+      id: r.id,
+      name: r.name,
+      fileCount: (await getRecordsByRoot(r.id)).length,
+      lastScanTimestamp: r.lastScanTimestamp,
     });
-
-    const count = await getCount();
-    logWorkflowStep(workflowId, "scan.background.services_called", Array.from(servicesCalled));
-    logWorkflowStep(workflowId, "scan.background.done", { indexedCount: count });
-    return { ok: true, count, workflowId };
-  } catch (err: any) {
-    logWorkflowError(workflowId, "scan.background.failed", err);
-    return { ok: false, error: err?.message || String(err), workflowId };
   }
+  return { roots };
+}
+
+/** What's indexed for the root a page scan updates, so its walk can skip unchanged files */
+async function handleGetKnownFiles(req: GetKnownFilesRequest): Promise<GetKnownFilesResponse> {
+  const root = await getRoot(req.rootId);
+  if (!root) return { rootId: null, files: {} };
+  const embedder = activeEmbedder(await getApiConfig());
+  return { rootId: root.id, files: await getKnownFiles(root.id, embedder) };
 }
 
 async function handleGetFile(id: string) {
@@ -644,13 +1155,38 @@ async function handleGetFile(id: string) {
   return data;
 }
 
+/**
+ * Forget a root the popup removed. Its jobs are cancelled and the removal
+ * waits for the index lock, so a commit in flight for any root can't write
+ * this root's records back afterwards.
+ */
+async function handleRemoveRoot(req: RemoveRootRequest): Promise<RemoveRootResponse> {
+  const workflowId = req.workflowId || createWorkflowId("remove-root-bg");
+  logWorkflowStep(workflowId, "root.remove.start", { rootId: req.rootId });
+  try {
+    for (const job of await getIndexJobs()) {
+      if (job.rootId === req.rootId) await controlIndexJob(job.id, "cancel");
+    }
+    await withIndexLock(() => removeRoot(req.rootId));
+    await updatePermissionBadge();
+    logWorkflowStep(workflowId, "root.remove.done", { rootId: req.rootId });
+    return { ok: true };
+  } catch (err: any) {
+    logWorkflowError(workflowId, "root.remove.failed", err);
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
 async function handleClearScannedData(
   req: ClearScannedDataRequest
 ): Promise<ClearScannedDataResponse> {
   const workflowId = req.workflowId || createWorkflowId("clear-bg");
   logWorkflowStep(workflowId, "clear.start");
   try {
-    await clearScannedData();
+    await cancelIndexJobs();
+    await withIndexLock(() => clearScannedData());
+    await setupRescanAlarm();
+    await updatePermissionBadge();
     await new Promise<void>((resolve) => {
       chrome.storage.local.remove(["vocab"], () => resolve());
     });
@@ -665,54 +1201,212 @@ async function handleClearScannedData(
   }
 }
 
+// ---- Re-embedding after a model change ----
+
+/** Records embedded per provider request */
+const REEMBED_BATCH_SIZE = 10;
+
+let reembedStatus: ReembedStatus = { running: false, model: null, done: 0, total: 0, stale: 0 };
+let reembedJob: Promise<void> | null = null;
+/** Set when the config changes mid-run, so the job starts over with the new model */
+let reembedRestart = false;
+
+function broadcastReembedStatus() {
+  const msg: ReembedProgressMessage = { type: "REEMBED_PROGRESS", status: reembedStatus };
+  chrome.runtime.sendMessage(msg, () => { void chrome.runtime.lastError; });
+}
+
+async function getReembedStatus(): Promise<ReembedStatus> {
+  if (reembedStatus.running) return reembedStatus;
+  const embedder = activeEmbedder(await getApiConfig());
+  const all = await getAll();
+  return {
+    ...reembedStatus,
+    model: embedder?.id || null,
+    error: reembedStatus.model === embedder?.id ? reembedStatus.error : undefined,
+    stale: embedder ? all.filter((r) => !isDenseCompatible(r, embedder.id, embedder.dimension)).length : 0,
+  };
+}
+
+/**
+ * Text to embed for a record: the file itself when the folder is still
+ * readable, else the stored preview (shorter, but keeps the record searchable).
+ */
+async function reembedText(record: VectorRecord): Promise<string> {
+  try {
+    const file = await readIndexedFile(record);
+    if (file) return (await extractText(file, record.path)).slice(0, 2000);
+  } catch {
+    // Moved or deleted since the last scan — the next rescan drops it
+  }
+  return record.textPreview;
+}
+
+/**
+ * Bring every record's dense vector in line with the configured embedding
+ * model. Runs when the model changes and whenever the service worker starts,
+ * so an interrupted run picks up where it stopped — finished records are
+ * already stored with the new model ID and don't count as stale any more.
+ * Only one run at a time; a config change mid-run restarts it.
+ */
+function runReembedJob(workflowId: string = createWorkflowId("reembed-bg")): Promise<void> {
+  if (reembedJob) {
+    reembedRestart = true;
+    return reembedJob;
+  }
+  reembedJob = reembedStaleRecords(workflowId).finally(() => {
+    reembedJob = null;
+  });
+  return reembedJob;
+}
+
+async function reembedStaleRecords(workflowId: string): Promise<void> {
+  do {
+    reembedRestart = false;
+    const embedder = activeEmbedder(await getApiConfig());
+    if (!embedder) {
+      reembedStatus = { running: false, model: null, done: 0, total: 0, stale: 0 };
+      return;
+    }
+
+    const stale = (await getAll()).filter((r) => !isDenseCompatible(r, embedder.id, embedder.dimension));
+    reembedStatus = { running: stale.length > 0, model: embedder.id, done: 0, total: stale.length, stale: stale.length };
+    if (stale.length === 0) return;
+
+    logWorkflowStep(workflowId, "reembed.start", { provider: embedder.id, stale: stale.length });
+    broadcastReembedStatus();
+
+    try {
+      for (let i = 0; i < stale.length && !reembedRestart; i += REEMBED_BATCH_SIZE) {
+        const batch = stale.slice(i, i + REEMBED_BATCH_SIZE);
+        const texts = await Promise.all(batch.map(reembedText));
+        const vectors = await batchEmbed(texts, embedder, REEMBED_BATCH_SIZE);
+
+        // Behind the index lock, so a commit can't write back its older copy of these records
+        await withIndexLock(async () => {
+          for (let j = 0; j < batch.length; j++) {
+            // A scan may have replaced or removed the record while we embedded
+            const current = await getById(batch[j].id);
+            if (!current || current.lastModified !== batch[j].lastModified) continue;
+            await upsert({ ...current, denseVector: vectors[j], denseModel: embedder.id, denseDim: vectors[j].length });
+          }
+        });
+
+        reembedStatus = {
+          ...reembedStatus,
+          done: Math.min(i + REEMBED_BATCH_SIZE, stale.length),
+          stale: Math.max(0, stale.length - i - REEMBED_BATCH_SIZE),
+        };
+        logWorkflowStep(workflowId, "reembed.progress", { done: reembedStatus.done, total: reembedStatus.total });
+        broadcastReembedStatus();
+      }
+      reembedStatus = { ...reembedStatus, running: false };
+      logWorkflowStep(workflowId, "reembed.done", { provider: embedder.id, embedded: reembedStatus.done });
+    } catch (err: any) {
+      // Left-over records stay stale (and out of dense search) until the next run
+      logWorkflowError(workflowId, "reembed.failed", err);
+      reembedStatus = { ...reembedStatus, running: false, error: err?.message || String(err) };
+      reembedRestart = false;
+    }
+    broadcastReembedStatus();
+  } while (reembedRestart);
+}
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== "local" || !changes.xupload_config) return;
+  const before = changes.xupload_config.oldValue as XUploadConfig | undefined;
+  const after = changes.xupload_config.newValue as XUploadConfig | undefined;
+  const modelBefore = before ? activeEmbedder(before)?.id : undefined;
+  const modelAfter = after ? activeEmbedder(after)?.id : undefined;
+  const dimChanged = before?.dimension !== after?.dimension;
+  if (modelAfter && (modelAfter !== modelBefore || dimChanged)) void runReembedJob();
+});
+
 // ---- Auto-rescan with chrome.alarms ----
 
-const ALARM_NAME = "xupload-rescan";
+/** One alarm per root: "xupload-rescan:<rootId>" */
+const ALARM_PREFIX = "xupload-rescan:";
 
+/**
+ * Bring the rescan alarms in line with the roots' settings. Runs on every
+ * service worker start, which happens far more often than a rescan period,
+ * so alarms that already match are left alone — re-creating one restarts
+ * its period, and it might never fire.
+ */
 async function setupRescanAlarm() {
-  await chrome.alarms.clear(ALARM_NAME);
-  const config = await getRescanConfig();
-  if (config.autoRescanEnabled && config.rescanIntervalMin > 0) {
-    chrome.alarms.create(ALARM_NAME, { periodInMinutes: config.rescanIntervalMin });
-    console.log(`[xUpload] Rescan alarm set: every ${config.rescanIntervalMin} min`);
-  } else {
-    console.log("[xUpload] Auto-rescan disabled");
+  const wanted = new Map<string, number>();
+  for (const root of await getRoots()) {
+    if (root.enabled && root.autoRescanEnabled && root.rescanIntervalMin > 0) {
+      wanted.set(ALARM_PREFIX + root.id, root.rescanIntervalMin);
+    }
+  }
+  const existing = new Map<string, chrome.alarms.Alarm>();
+  for (const alarm of await chrome.alarms.getAll()) {
+    if (wanted.has(alarm.name)) {
+      existing.set(alarm.name, alarm);
+    } else if (alarm.name.startsWith(ALARM_PREFIX) || alarm.name === "xupload-rescan") {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+  for (const [name, periodInMinutes] of wanted) {
+    if (existing.get(name)?.periodInMinutes === periodInMinutes) continue;
+    await chrome.alarms.create(name, { periodInMinutes });
+    console.log(`[xUpload] Rescan alarm set for ${name.slice(ALARM_PREFIX.length)}: every ${periodInMinutes} min`);
   }
 }
 
-chrome.alarms.onAlarm.addListener(async (alarm) => {
-  if (alarm.name !== ALARM_NAME) return;
-  console.log("[xUpload] Auto-rescan alarm fired");
+/** Red "!" badge while any enabled root needs its folder access renewed from the popup */
+async function updatePermissionBadge() {
+  const roots = (await getRoots()).filter((r) => r.enabled);
+  const permissions = await Promise.all(roots.map((r) => getRootPermission(r.id)));
+  const needsAccess = permissions.some((p) => p === "prompt" || p === "denied");
+  chrome.action.setBadgeText({ text: needsAccess ? "!" : "" });
+  if (needsAccess) chrome.action.setBadgeBackgroundColor({ color: "#ea4335" });
+}
 
-  const dirHandle = await getDirectoryHandle();
-  if (!dirHandle) {
-    console.log("[xUpload] No directory handle, skipping auto-rescan");
-    return;
-  }
+/**
+ * Scheduled rescan: queue an incremental job for the root. The job walks the
+ * folder in the offscreen document, updates new, changed and deleted files
+ * and the vocabulary, and leaves a scan report on the root. A root whose
+ * access has lapsed gets a report saying so, and the badge; its paused job
+ * resumes on the first alarm after access is granted again.
+ */
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (!alarm.name.startsWith(ALARM_PREFIX)) return;
+  const rootId = alarm.name.slice(ALARM_PREFIX.length);
+  const workflowId = createWorkflowId("rescan-alarm");
+  logWorkflowStep(workflowId, "rescan.alarm.fired", { rootId });
 
   try {
-    const perm = await (dirHandle as any).queryPermission({ mode: "read" });
-    if (perm !== "granted") {
-      console.log("[xUpload] Directory permission not granted, skipping auto-rescan");
-      // Set badge to indicate rescan needed
-      chrome.action.setBadgeText({ text: "!" });
-      chrome.action.setBadgeBackgroundColor({ color: "#ea4335" });
+    const root = await getRoot(rootId);
+    if (!root?.enabled) return;
+    if (!await getDirectoryHandle(rootId)) {
+      // Indexed from a page: there's no folder to read until it's rescanned from the popup
+      logWorkflowStep(workflowId, "rescan.alarm.no_directory_handle", { rootId });
       return;
     }
-
-    // Clear any existing badge
-    chrome.action.setBadgeText({ text: "" });
-
-    // Note: Background service worker cannot do a full incremental rescan
-    // because it can't read files via the File System Access API directly.
-    // The directory handle works in background but with limitations.
-    // For now, we notify any open popup/content to trigger rescan.
-    console.log("[xUpload] Auto-rescan: directory handle valid, notifying tabs");
+    const job = await startIndexJob(rootId, true, workflowId, "alarm");
+    logWorkflowStep(workflowId, "rescan.alarm.job", { rootId, jobId: job.id, state: job.state });
+    // Hold the alarm event open until the queue drains, which keeps the worker alive for the scan
+    await resumeIndexJobs();
   } catch (err) {
-    console.error("[xUpload] Auto-rescan error:", err);
+    logWorkflowError(workflowId, "rescan.alarm.failed", err);
+  } finally {
+    await updatePermissionBadge();
   }
 });
 
+// ---- Keyboard shortcut: fill every upload zone on the active tab ----
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (command !== "fill-all-zones" || !tab?.id) return;
+  const workflowId = createWorkflowId("fill-all-cmd");
+  logWorkflowStep(workflowId, "fill_all.command", { tabId: tab.id });
+  chrome.tabs.sendMessage(tab.id, { type: "FILL_ALL_ZONES", workflowId }, { frameId: 0 }, () => {
+    void chrome.runtime.lastError;
+  });
+});
+
 // Setup alarm on extension startup
 chrome.runtime.onStartup.addListener(() => {
   console.log("[xUpload] Extension started");
@@ -727,3 +1421,9 @@ chrome.runtime.onInstalled.addListener(() => {
 
 // Initial alarm setup
 setupRescanAlarm();
+
+// Resume re-embedding a worker shutdown interrupted
+void runReembedJob();
+
+// Resume indexing jobs the same way, from their checkpoints
+void resumeIndexJobs();
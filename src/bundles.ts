@@ -0,0 +1,150 @@
+/**
+ * Upload-bundle mining.
+ * Finds sets of files that are repeatedly uploaded together on the same page
+ * (e.g. passport + photo + bank statement on a visa portal) by grouping
+ * upload_history rows into sessions and counting co-occurring file sets.
+ */
+
+import type { UploadHistoryEntry } from "./types";
+
+/** Uploads on the same page closer than this belong to one session. */
+const SESSION_GAP_MS = 15 * 60 * 1000;
+
+/** Minimum URL-weighted session count before a file set is suggested. */
+const MIN_BUNDLE_SUPPORT = 1.0;
+/** A set uploaded together once is a coincidence; suggest it from the second time on. */
+const MIN_BUNDLE_SESSIONS = 2;
+
+export interface BundleCandidate {
+  fileIds: string[];
+  /** Sessions that uploaded exactly this file set */
+  sessions: number;
+  /** Sessions weighted by URL similarity to the current page */
+  support: number;
+  lastUsed: number;
+  /** Upload contexts each member was filled with, most recent first */
+  contexts: Map<string, string[]>;
+}
+
+export function urlPathSegments(url: string): string[] {
+  try {
+    return new URL(url).pathname.split("/").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Weight a past page URL by how many leading path segments it shares with the
+ * current page:
+ *   ≥2 segments match → 1.0  (same course/section, e.g. /courses/12345/...)
+ *    1 segment matches → 0.4  (same site section but different id)
+ *    0 segments match  → 0.1  (same hostname only — very weak signal)
+ * Returns 1.0 when either side has no path to compare.
+ */
+export function urlPrefixWeight(currentSegments: string[], otherUrl: string): number {
+  if (currentSegments.length === 0 || !otherUrl) return 1.0;
+  let otherSegments: string[];
+  try {
+    otherSegments = new URL(otherUrl).pathname.split("/").filter(Boolean);
+  } catch {
+    return 1.0;
+  }
+  let matches = 0;
+  for (let i = 0; i < Math.min(currentSegments.length, otherSegments.length); i++) {
+    if (currentSegments[i] === otherSegments[i]) matches++;
+    else break;
+  }
+  return matches >= 2 ? 1.0 : matches === 1 ? 0.4 : 0.1;
+}
+
+function pageKey(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.origin}${u.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Split history into upload sessions: same page (origin + path), with no gap
+ * longer than SESSION_GAP_MS between consecutive uploads.
+ */
+export function groupUploadSessions(history: UploadHistoryEntry[]): UploadHistoryEntry[][] {
+  const byPage = new Map<string, UploadHistoryEntry[]>();
+  for (const h of history) {
+    const key = pageKey(h.pageUrl);
+    const rows = byPage.get(key);
+    if (rows) rows.push(h);
+    else byPage.set(key, [h]);
+  }
+
+  const sessions: UploadHistoryEntry[][] = [];
+  for (const rows of byPage.values()) {
+    rows.sort((a, b) => a.timestamp - b.timestamp);
+    let current: UploadHistoryEntry[] = [];
+    for (const h of rows) {
+      const prev = current[current.length - 1];
+      if (prev && h.timestamp - prev.timestamp > SESSION_GAP_MS) {
+        sessions.push(current);
+        current = [];
+      }
+      current.push(h);
+    }
+    if (current.length > 0) sessions.push(current);
+  }
+  return sessions;
+}
+
+/**
+ * Pick the file set most often uploaded together on pages like `pageUrl`.
+ * Only sessions with two or more distinct files count. Returns null when no
+ * set was uploaded in MIN_BUNDLE_SESSIONS sessions and reaches
+ * MIN_BUNDLE_SUPPORT.
+ */
+export function mineUploadBundle(
+  history: UploadHistoryEntry[],
+  pageUrl: string,
+): BundleCandidate | null {
+  const currentSegments = urlPathSegments(pageUrl);
+  const candidates = new Map<string, BundleCandidate>();
+
+  for (const session of groupUploadSessions(history)) {
+    const fileIds = [...new Set(session.map((h) => h.fileId))].sort();
+    if (fileIds.length < 2) continue;
+
+    const key = fileIds.join("\n");
+    const weight = urlPrefixWeight(currentSegments, session[0].pageUrl);
+    const lastUsed = session[session.length - 1].timestamp;
+
+    let candidate = candidates.get(key);
+    if (!candidate) {
+      candidate = { fileIds, sessions: 0, support: 0, lastUsed: 0, contexts: new Map() };
+      candidates.set(key, candidate);
+    }
+    candidate.sessions++;
+    candidate.support += weight;
+    candidate.lastUsed = Math.max(candidate.lastUsed, lastUsed);
+
+    for (const h of [...session].reverse()) {
+      if (!h.uploadContext) continue;
+      const contexts = candidate.contexts.get(h.fileId) || [];
+      if (!contexts.includes(h.uploadContext)) contexts.push(h.uploadContext);
+      candidate.contexts.set(h.fileId, contexts);
+    }
+  }
+
+  let best: BundleCandidate | null = null;
+  for (const candidate of candidates.values()) {
+    if (candidate.sessions < MIN_BUNDLE_SESSIONS || candidate.support < MIN_BUNDLE_SUPPORT) continue;
+    if (
+      !best ||
+      candidate.support > best.support ||
+      (candidate.support === best.support && candidate.lastUsed > best.lastUsed)
+    ) {
+      best = candidate;
+    }
+  }
+  return best;
+}
@@ -1,8 +1,32 @@
 import type {
+  BuildIndexRequest,
+  BuildIndexResponse,
+  CollectFrameZonesRequest,
+  ContextFields,
+  DismissSuggestionRequest,
+  FillAllZonesResponse,
+  FillFrameZoneRequest,
+  FillFrameZoneResponse,
+  FindRootsRequest,
+  FindRootsResponse,
+  FrameZonesResponse,
+  GetKnownFilesRequest,
+  GetKnownFilesResponse,
   MatchRequest,
   MatchRequestEnhanced,
   MatchResponse,
+  MatchExplanation,
+  MatchRange,
   MatchResultItem,
+  RankingSignal,
+  RootChoice,
+  SearchRequest,
+  SearchResponse,
+  SearchResultItem,
+  TrackNativeUploadRequest,
+  TrackNativeUploadResponse,
+  UploadBundle,
+  UploadBundleMember,
   XUploadConfig,
 } from "./types";
 import {
@@ -10,6 +34,22 @@ import {
   logWorkflowError,
   logWorkflowStep,
 } from "./workflow";
+import { tokenizeFiltered } from "./embeddings";
+import { parseFileId } from "./vectordb";
+import { getIndexRules } from "./indexRules";
+import { collectFiles } from "./indexer";
+import { flattenContextFields } from "./contextFields";
+import { isProviderConfigured } from "./apiEmbeddings";
+import { getFlowContext, recordFlowStep } from "./flowContext";
+import {
+  fetchParentPageContext,
+  getPageContext,
+  installFrameMessaging,
+  isHandledByParentFrame,
+  isTopFrame,
+  requestFrameGeometry,
+  type FrameGeometry,
+} from "./frames";
 
 /* ================================================================== */
 /*  Constants                                                          */
@@ -19,49 +59,184 @@ const ZONE_CLASS = "xupload-zone";
 const PANEL_CLASS = "xupload-panel";
 const BADGE_CLASS = "xupload-badge";
 
+/** Zone + badge rules from content.css, injected into shadow roots and frames */
+const ZONE_STYLES = `
+.${ZONE_CLASS} {
+  outline: 2px dashed rgba(74, 144, 217, 0.35) !important;
+  outline-offset: 3px;
+  border-radius: 8px;
+}
+.${ZONE_CLASS}:hover {
+  outline-color: rgba(74, 144, 217, 0.75) !important;
+  outline-style: solid !important;
+}
+.${BADGE_CLASS} {
+  position: absolute;
+  top: -10px;
+  right: 8px;
+  background: linear-gradient(135deg, #4a90d9, #6366f1);
+  color: #fff;
+  font-size: 9px;
+  font-weight: 600;
+  padding: 2px 8px;
+  border-radius: 4px;
+  pointer-events: none;
+  z-index: 2147483646;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  white-space: nowrap;
+  line-height: 1.4;
+}
+`;
+
 /* ================================================================== */
 /*  Module state                                                       */
 /* ================================================================== */
 
+/** Fast-path skip for elements already marked (or known duplicates of a marked field) */
 const markedZones = new WeakSet<Element>();
-const resultCache = new WeakMap<HTMLElement, MatchResultItem[]>();
+/** Elements whose dragover probe failed — never re-probed on later mutations */
+const probedNonDropZones = new WeakSet<Element>();
+/** Recommendations per logical field (zone ID), survives framework re-renders */
+const resultCache = new Map<string, Recommendations>();
+
+/**
+ * One UploadTarget per logical upload field, keyed by its stable zone ID.
+ * When a framework replaces the field's DOM nodes, the same target object is
+ * rebound to the new elements instead of a second badge being added.
+ */
+const zoneRegistry = new Map<string, UploadTarget>();
 
-/** Tracks all zone elements we've marked, so we can clean up on disable */
-const allMarkedZoneEls: Set<HTMLElement> = new Set();
+/** Hover/focus listeners per marked zone element, so a rebind can detach them */
+const zoneHandlers = new WeakMap<HTMLElement, [string, EventListener][]>();
 
-let dirHandle: FileSystemDirectoryHandle | null = null;
+/** File inputs watched for native-picker choices → ID of the zone they belong to */
+const nativePickInputs = new WeakMap<HTMLInputElement, string>();
+
+/** Folders picked on this page, by the index root they belong to */
+const dirHandles = new Map<string, FileSystemDirectoryHandle>();
 let activePanel: HTMLElement | null = null;
 let activeTarget: UploadTarget | null = null;
 let hoverTimer: ReturnType<typeof setTimeout> | null = null;
 let hideTimer: ReturnType<typeof setTimeout> | null = null;
+/** Element that had keyboard focus when a panel opened — focus returns here on Escape */
+let focusReturnEl: HTMLElement | null = null;
 let extensionEnabled = true;
+/** Same-origin sub-frames are scanned by the parent frame's content script */
+const handledByParentFrame = isHandledByParentFrame();
+/** Where this (cross-origin) frame sits in the top viewport; null in the top frame */
+let frameGeometry: FrameGeometry | null = null;
+let scanTimer: ReturnType<typeof setTimeout> | null = null;
+
+const observedRoots = new WeakSet<Node>();
+const styledRoots = new WeakSet<Node>();
+const watchedFrames = new WeakSet<HTMLIFrameElement>();
 
 /* ================================================================== */
 /*  Types                                                              */
 /* ================================================================== */
 
 interface UploadTarget {
+  /** Stable fingerprint of the logical field — see fingerprintZone */
+  id: string;
   zone: HTMLElement;
-  fileInput: HTMLInputElement;
+  /** Backing file input; null for drop zones that create theirs lazily (or never) */
+  fileInput: HTMLInputElement | null;
+  /** Flat context — all contextFields joined */
   context: string;
+  contextFields: ContextFields;
   accept?: string;
+  /** Whether the zone takes more than one file at a time */
+  multiple: boolean;
+}
+
+/** What the background returned for one zone — cached per zone ID */
+interface Recommendations {
+  results: MatchResultItem[];
+  bundle?: UploadBundle;
+  /** Background's log of this list — a pick from it trains the ranking weights */
+  rankingEventId?: string;
 }
 
 /* ================================================================== */
 /*  DETECTION — find upload zones                                      */
 /* ================================================================== */
 
+/** A tree we search for upload fields: the page, a shadow root, or a frame */
+type SearchRoot = Document | ShadowRoot;
+
+/** Search roots found so far; a mutation only walks the subtrees it added */
+const searchRoots = new Set<SearchRoot>();
+
+/**
+ * The top document plus every open shadow root and same-origin iframe
+ * document reachable from it (recursively). Closed shadow roots and
+ * cross-origin frames are invisible to us.
+ *
+ * `added` limits the walk to elements added since the last scan (null = walk
+ * everything); roots whose host or frame is gone are dropped. Returns every
+ * known root and the ones this walk found.
+ */
+function updateSearchRoots(added: Element[] | null): { all: SearchRoot[]; found: SearchRoot[] } {
+  const found: SearchRoot[] = [];
+  const visitElement = (el: Element) => {
+    if (el.shadowRoot) visit(el.shadowRoot);
+    if (el.tagName === "IFRAME" || el.tagName === "FRAME") {
+      watchFrameLoads(el as HTMLIFrameElement);
+      const frameDoc = getSameOriginFrameDocument(el as HTMLIFrameElement);
+      if (frameDoc) visit(frameDoc);
+    }
+  };
+  const visit = (root: SearchRoot) => {
+    if (searchRoots.has(root)) return;
+    searchRoots.add(root);
+    found.push(root);
+    root.querySelectorAll<HTMLElement>("*").forEach(visitElement);
+  };
+
+  if (!added) {
+    searchRoots.clear();
+    visit(document);
+  } else {
+    for (const root of searchRoots) {
+      const gone = root instanceof ShadowRoot ? !root.host.isConnected : !root.defaultView;
+      if (gone) searchRoots.delete(root);
+    }
+    for (const el of added) {
+      visitElement(el);
+      el.querySelectorAll("*").forEach(visitElement);
+    }
+  }
+  return { all: [...searchRoots], found };
+}
+
+function getSameOriginFrameDocument(frame: HTMLIFrameElement): Document | null {
+  try {
+    const doc = frame.contentDocument;
+    return doc?.body ? doc : null;
+  } catch {
+    // Cross-origin: access throws
+    return null;
+  }
+}
+
 /**
- * For every <input type="file"> on the page, find the enclosing "upload zone"
- * (the visual container the user sees). Deduplicate so each zone is returned
- * only once even if it contains multiple file inputs.
+ * For every <input type="file"> on the page (including open shadow roots and
+ * same-origin frames), find the enclosing "upload zone" (the visual container
+ * the user sees). Deduplicate so each zone is returned only once even if it
+ * contains multiple file inputs.
  */
-function findUploadZones(): UploadTarget[] {
+function findUploadZones(added: Element[] | null): UploadTarget[] {
   const results: UploadTarget[] = [];
   const usedZones = new Set<Element>();
+  const { all: roots, found } = updateSearchRoots(added);
 
-  document
-    .querySelectorAll<HTMLInputElement>('input[type="file"]')
+  for (const root of roots) {
+    ensureRootStyles(root);
+    observeRoot(root);
+  }
+
+  roots
+    .flatMap((root) => [...root.querySelectorAll<HTMLInputElement>('input[type="file"]')])
     .forEach((input) => {
       if (markedZones.has(input)) return;
 
@@ -70,16 +245,286 @@ function findUploadZones(): UploadTarget[] {
       usedZones.add(zone);
 
       results.push({
+        id: fingerprintZone(input, zone),
         zone,
         fileInput: input,
-        context: extractZoneContext(input, zone),
+        ...describeZone(input, zone),
         accept: input.accept || undefined,
+        multiple: input.multiple,
       });
     });
 
+  // File inputs are a cheap native query; the drop-text walk isn't, so after
+  // a mutation it only covers what was added
+  results.push(...findDropOnlyZones(added ? [...added, ...found] : roots, usedZones));
+
+  return mergeOverlappingTargets(results);
+}
+
+/**
+ * Collapse candidates that describe the same logical field: identical
+ * fingerprints (e.g. a library rendering two inputs with the same name), or
+ * nested zones where one side has no input of its own or both carry the same
+ * label. Input-backed candidates come first in `targets`, so they win.
+ */
+function mergeOverlappingTargets(targets: UploadTarget[]): UploadTarget[] {
+  const merged: UploadTarget[] = [];
+  for (const candidate of targets) {
+    const duplicate = merged.find((kept) => {
+      if (kept.id === candidate.id) return true;
+      const nested = kept.zone.contains(candidate.zone) || candidate.zone.contains(kept.zone);
+      if (!nested) return false;
+      if (!kept.fileInput || !candidate.fileInput) return true;
+      const keptLabel = fieldLabel(kept.fileInput, kept.zone);
+      return !!keptLabel && keptLabel === fieldLabel(candidate.fileInput, candidate.zone);
+    });
+    if (duplicate) {
+      // Remember the loser so the next mutation doesn't re-evaluate it
+      markedZones.add(candidate.zone);
+      if (candidate.fileInput) markedZones.add(candidate.fileInput);
+      continue;
+    }
+    merged.push(candidate);
+  }
+  return merged;
+}
+
+/* ---- Zone fingerprints ---- */
+
+/**
+ * Stable ID for a logical upload field, derived from things that survive a
+ * framework re-render: where it lives (frame / shadow host), which form it's
+ * in, the input's name or id (or its position among the form's file inputs)
+ * and its label, when it has one. Drop-only zones use their structural path
+ * instead of an input name.
+ */
+function fingerprintZone(input: HTMLInputElement | null, zone: HTMLElement): string {
+  const parts = [scopeKey(zone), formKey(input, zone)];
+  if (input) {
+    const name = input.getAttribute("name") || (isStableId(input.id) ? input.id : "");
+    parts.push(name ? `n:${name}` : `i:${fileInputIndex(input)}`);
+  } else {
+    parts.push(`p:${structuralPath(zone)}`);
+  }
+  const label = fieldLabel(input, zone);
+  if (label) parts.push(label);
+  return `z${hashString(parts.join("|"))}`;
+}
+
+/** Shadow hosts and frames enclosing `el`, outermost last */
+function scopeKey(el: Element): string {
+  const scopes: string[] = [];
+  let node: Element | null = el;
+  while (node) {
+    const root: Node = node.getRootNode();
+    if (root instanceof ShadowRoot) {
+      const host: Element = root.host;
+      scopes.push(host.tagName.toLowerCase() + (isStableId(host.id) ? `#${host.id}` : ""));
+      node = host;
+      continue;
+    }
+    const frameEl = (root as Document).defaultView?.frameElement;
+    if (!frameEl || (root as Document).defaultView === window) break;
+    const siblings = [...frameEl.ownerDocument.querySelectorAll("iframe, frame")];
+    scopes.push(`frame${siblings.indexOf(frameEl)}`);
+    node = frameEl;
+  }
+  return scopes.join(">");
+}
+
+function formKey(input: HTMLInputElement | null, zone: HTMLElement): string {
+  const form = input?.form || zone.closest("form");
+  if (!form) return "";
+  const stable = form.getAttribute("name") || (isStableId(form.id) ? form.id : "");
+  if (stable) return `f:${stable}`;
+  return `f${[...form.ownerDocument.forms].indexOf(form)}`;
+}
+
+/** Position among the file inputs of the same form (or document) */
+function fileInputIndex(input: HTMLInputElement): number {
+  const scope: ParentNode = input.form || (input.getRootNode() as Document | ShadowRoot);
+  return [...scope.querySelectorAll('input[type="file"]')].indexOf(input);
+}
+
+/** tag:nth-of-type path for the last few levels above `el` */
+function structuralPath(el: HTMLElement): string {
+  const segments: string[] = [];
+  let current: Element | null = el;
+  for (let i = 0; i < 5 && current && current !== el.ownerDocument.body; i++) {
+    const tag = current.tagName;
+    const parent: Element | null = current.parentElement;
+    const index = parent ? [...parent.children].filter((c) => c.tagName === tag).indexOf(current) : 0;
+    segments.push(`${tag.toLowerCase()}${index}`);
+    current = parent;
+  }
+  return segments.join("<");
+}
+
+/** Ids frameworks generate per render or per mount, rather than ones an author wrote */
+const GENERATED_ID_PATTERNS = [
+  /:r[0-9a-z]*:|«r[0-9a-z]*»|^_r_/,                        // React useId, also inside library ids
+  /^(?:mat|mdc|cdk)-.*-\d+$/,                              // Angular Material / CDK counters
+  /^(?:radix|headlessui|mui|downshift|react-select)-.*\d+$/, // component library counters
+  /^ember\d+$|^ext-(?:gen|comp|element)-?\d+$/,            // Ember, Ext JS
+  /\d{6,}/,                                                // timestamps, long counters
+  /[0-9a-f]{8}-[0-9a-f]{4}-/i,                             // UUIDs
+  /(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}/i,        // hex hashes
+];
+
+/**
+ * Framework-generated ids change between renders — don't build fingerprints
+ * on them. Author-written ids with digits (`upload2`, `resume2024`) are fine.
+ */
+function isStableId(id: string): boolean {
+  return !!id && !GENERATED_ID_PATTERNS.some((re) => re.test(id));
+}
+
+/**
+ * Short normalized label for the field: <label>, aria-label, or heading text.
+ * Empty when there's none — the zone's own text changes as soon as a widget
+ * shows the chosen file name or upload progress, so it's no label.
+ */
+function fieldLabel(input: HTMLInputElement | null, zone: HTMLElement): string {
+  let text = "";
+  if (input) {
+    const root = input.getRootNode() as Document | ShadowRoot;
+    if (input.id) text = root.querySelector?.(`label[for="${CSS.escape(input.id)}"]`)?.textContent || "";
+    if (!text) text = input.closest("label")?.textContent || "";
+    if (!text) text = input.getAttribute("aria-label") || input.title || "";
+  }
+  if (!text) text = zone.getAttribute("aria-label") || "";
+  if (!text) text = zone.querySelector("label, legend, h1, h2, h3, h4, h5, h6")?.textContent || "";
+  return text
+    .replace("\u26A1 xUpload", "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+    .slice(0, 60);
+}
+
+/** 32-bit FNV-1a, hex */
+function hashString(str: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Class/attribute hooks of well-known drop-zone libraries and inline handlers */
+const DROPZONE_SELECTORS = [
+  ".dropzone",                        // Dropzone.js
+  ".dz-clickable",
+  ".filepond--root",                  // FilePond
+  ".uppy-Dashboard-AddFiles",         // Uppy
+  ".uppy-DragDrop-container",
+  ".qq-upload-drop-area",             // Fine Uploader
+  "[data-dropzone]",
+  "[data-drop-target]",
+  "[ondrop]",
+  "[ondragover]",
+].join(",");
+
+/** Buttons that announce themselves as upload/attach controls */
+const ARIA_UPLOAD_SELECTOR = [
+  'button[aria-label*="upload" i]',
+  '[role="button"][aria-label*="upload" i]',
+  'button[aria-label*="attach" i]',
+  '[role="button"][aria-label*="attach" i]',
+].join(",");
+
+const DROP_TEXT_RE =
+  /drag\s*(?:and|&|'n'|n)\s*drop|drop\s+(?:your\s+)?(?:files?|documents?|images?|photos?)\s+here|drop\s+here/i;
+
+/**
+ * Second detection strategy: zones with no backing <input type="file">.
+ *
+ * Candidates come from drop-zone library hooks, ARIA upload buttons, and
+ * "drag and drop / drop files here" copy. Text-only candidates must also
+ * accept a probe `dragover` (i.e. something calls preventDefault on it), which
+ * is how a page signals that it handles drops. `scopes` are whole roots on
+ * a full scan, or the elements a mutation added.
+ */
+function findDropOnlyZones(scopes: (SearchRoot | Element)[], usedZones: Set<Element>): UploadTarget[] {
+  const results: UploadTarget[] = [];
+  const candidates = new Set<HTMLElement>();
+
+  for (const scope of scopes) {
+    if (scope instanceof HTMLElement && scope.matches(`${DROPZONE_SELECTORS},${ARIA_UPLOAD_SELECTOR}`)) {
+      candidates.add(scope);
+    }
+    scope.querySelectorAll<HTMLElement>(DROPZONE_SELECTORS).forEach((el) => candidates.add(el));
+    scope.querySelectorAll<HTMLElement>(ARIA_UPLOAD_SELECTOR).forEach((el) => candidates.add(el));
+
+    const walkRoot = scope instanceof Document ? scope.body : scope;
+    if (!walkRoot) continue;
+    const walker = document.createTreeWalker(walkRoot, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const text = node.textContent || "";
+      if (text.length > 200 || !DROP_TEXT_RE.test(text)) continue;
+      const host = node.parentElement;
+      if (!host || host.closest(`.${PANEL_CLASS}`)) continue;
+      const zone = climbToReasonableZone(host);
+      if (!zone || markedZones.has(zone) || probedNonDropZones.has(zone)) continue;
+      if (zone.querySelector('input[type="file"]')) continue;
+      if (acceptsDragOver(zone)) candidates.add(zone);
+      else probedNonDropZones.add(zone);
+    }
+  }
+
+  for (const el of candidates) {
+    if (markedZones.has(el) || usedZones.has(el)) continue;
+    if (el.closest(`.${PANEL_CLASS}`)) continue;
+    // Zones that own a file input are covered by the first strategy
+    if (el.querySelector('input[type="file"]')) continue;
+    // Overlaps an existing zone (nested library markup, label inside zone)
+    if ([...usedZones].some((z) => z.contains(el) || el.contains(z))) continue;
+    if (markedZoneElements().some((z) => z.contains(el) || el.contains(z))) continue;
+    if (!isReasonableZone(el) && !el.matches(ARIA_UPLOAD_SELECTOR)) continue;
+
+    usedZones.add(el);
+    results.push({
+      id: fingerprintZone(null, el),
+      zone: el,
+      fileInput: null,
+      ...describeZone(null, el),
+      accept: el.getAttribute("data-accept") || el.getAttribute("accept") || undefined,
+      multiple: el.hasAttribute("multiple") || el.getAttribute("data-multiple") === "true",
+    });
+  }
+
   return results;
 }
 
+function climbToReasonableZone(el: HTMLElement): HTMLElement | null {
+  let current: HTMLElement | null = el;
+  for (let i = 0; i < 4 && current && current !== el.ownerDocument.body; i++) {
+    if (isReasonableZone(current)) return current;
+    current = current.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Probe whether the page handles drops on `el`: drop targets must cancel
+ * `dragover`, so a synthetic one coming back defaultPrevented means yes.
+ * A matching `dragleave` resets any hover styling the page applied.
+ */
+function acceptsDragOver(el: HTMLElement): boolean {
+  if (el.ondragover || el.ondrop) return true;
+  try {
+    const win = realmOf(el);
+    const dataTransfer = new win.DataTransfer();
+    const over = new win.DragEvent("dragover", { bubbles: true, cancelable: true, dataTransfer });
+    const accepted = !el.dispatchEvent(over);
+    el.dispatchEvent(new win.DragEvent("dragleave", { bubbles: true, dataTransfer }));
+    return accepted;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Walk up from the file input to find the best "upload zone" container.
  *
@@ -113,7 +558,7 @@ function resolveZone(input: HTMLInputElement): HTMLElement | null {
 
   // 3. Walk up to find a visually reasonable container
   let el: HTMLElement | null = input.parentElement;
-  for (let i = 0; i < 5 && el && el !== document.body; i++) {
+  for (let i = 0; i < 5 && el && el !== input.ownerDocument.body; i++) {
     if (isReasonableZone(el)) return el;
     el = el.parentElement;
   }
@@ -127,71 +572,312 @@ function isReasonableZone(el: HTMLElement): boolean {
   return (
     rect.width > 40 &&
     rect.height > 30 &&
-    rect.width < window.innerWidth * 0.9
+    rect.width < realmOf(el).innerWidth * 0.9
   );
 }
 
+/**
+ * The window an element lives in. Elements inside same-origin frames need
+ * their own realm's constructors (DataTransfer, Event, property setters) and
+ * viewport size.
+ */
+function realmOf(el: Element): Window & typeof globalThis {
+  return (el.ownerDocument.defaultView || window) as Window & typeof globalThis;
+}
+
+/** Like Element.closest, but continues past shadow-root boundaries to the host */
+function closestAcrossShadow(el: Element, selector: string): Element | null {
+  let current: Element | null = el;
+  while (current) {
+    const found = current.closest(selector);
+    if (found) return found;
+    const root = current.getRootNode();
+    current = root instanceof ShadowRoot ? root.host : null;
+  }
+  return null;
+}
+
 /* ================================================================== */
 /*  CONTEXT EXTRACTION                                                 */
 /* ================================================================== */
 
+/**
+ * Structured context for a zone: each kind of text (field label, legend,
+ * section heading, helper text, ...) goes into its own field so the
+ * background can weight them separately (see contextFields.ts).
+ */
 function extractZoneContext(
-  input: HTMLInputElement,
+  input: HTMLInputElement | null,
   zone: HTMLElement,
-): string {
-  const parts: string[] = [];
+): ContextFields {
+  const fields: ContextFields = {};
+  const labels: string[] = [];
+
+  if (input) {
+    // Labels pointing at the input — looked up in the input's own tree, since
+    // `for` references don't cross shadow-root or frame boundaries
+    if (input.id) {
+      const root = input.getRootNode() as Document | ShadowRoot;
+      const label = root.querySelector?.(`label[for="${CSS.escape(input.id)}"]`);
+      if (label) labels.push(label.textContent || "");
+    }
+    const parentLabel = input.closest("label");
+    if (parentLabel) labels.push(parentLabel.textContent || "");
+
+    // Input attributes
+    if (input.placeholder) labels.push(input.placeholder);
+    if (input.title) labels.push(input.title);
+    const ariaLabel = input.getAttribute("aria-label");
+    if (ariaLabel) labels.push(ariaLabel);
+  } else {
+    // Drop-only zones describe themselves through ARIA/title attributes
+    const ariaLabel = zone.getAttribute("aria-label");
+    if (ariaLabel) labels.push(ariaLabel);
+    if (zone.title) labels.push(zone.title);
+  }
 
-  // Labels pointing at the input
-  if (input.id) {
-    const label = document.querySelector(`label[for="${input.id}"]`);
-    if (label) parts.push(label.textContent || "");
+  // Web components: the label usually lives on the host element(s) in the
+  // light DOM (e.g. <lightning-file-upload label="Resume">)
+  let root = zone.getRootNode();
+  while (root instanceof ShadowRoot) {
+    const host = root.host;
+    for (const attr of ["label", "aria-label", "title"]) {
+      const value = host.getAttribute(attr);
+      if (value) labels.push(value);
+    }
+    root = host.getRootNode();
+  }
+  fields.label = joinText(labels, 200);
+
+  // Fieldset legend
+  const fieldset = closestAcrossShadow(input || zone, "fieldset");
+  const legend = fieldset?.querySelector(":scope > legend");
+  if (legend) fields.legend = cleanText(legend.textContent, 150);
+
+  fields.sectionHeading = findSectionHeading(zone);
+
+  // Form title and the labels of its other fields (what kind of form is it?)
+  const form = (input?.form || closestAcrossShadow(zone, "form")) as HTMLFormElement | null;
+  if (form) {
+    const heading = form.querySelector("h1, h2, h3, [role='heading']");
+    fields.formTitle = joinText(
+      [form.getAttribute("aria-label") || "", form.getAttribute("name") || "", heading?.textContent || ""],
+      150,
+    );
+    const siblings = [...form.querySelectorAll("label")]
+      .filter((l) => !zone.contains(l) && !l.contains(zone))
+      .slice(0, 10)
+      .map((l) => cleanText(l.textContent, 40));
+    fields.siblingLabels = joinText(siblings, 300);
   }
-  const parentLabel = input.closest("label");
-  if (parentLabel) parts.push(parentLabel.textContent || "");
 
-  // Input attributes
-  if (input.placeholder) parts.push(input.placeholder);
-  if (input.title) parts.push(input.title);
-  const ariaLabel = input.getAttribute("aria-label");
-  if (ariaLabel) parts.push(ariaLabel);
+  fields.acceptHint = describeAccept(input?.accept || zone.getAttribute("data-accept") || "");
+  fields.helperText = findHelperText(input, zone);
 
   // Zone text (the container around the upload field — labels, hints, etc.)
-  parts.push((zone.textContent || "").slice(0, 500));
+  fields.zoneText = cleanText(zone.textContent, 500);
 
   // Compose-window context: in web email clients (Gmail, Outlook, etc.) the
   // meaningful context is the email subject + body, not the toolbar the
   // attachment button lives in. Walk up to find the nearest dialog/form
   // container and pull in any subject input and contenteditable body text.
+  const composeParts: string[] = [];
   const composeRoot =
-    zone.closest('[role="dialog"]') ||
-    zone.closest('[role="main"]') ||
-    zone.closest("form") ||
-    document.body;
+    closestAcrossShadow(zone, '[role="dialog"]') ||
+    closestAcrossShadow(zone, '[role="main"]') ||
+    closestAcrossShadow(zone, "form") ||
+    zone.ownerDocument.body;
 
   // Subject line (input with subject-like name/placeholder/aria-label)
   const subjectInput = composeRoot.querySelector<HTMLInputElement>(
     'input[name*="subject" i], input[placeholder*="subject" i], input[aria-label*="subject" i]',
   );
-  if (subjectInput?.value) parts.push(subjectInput.value);
+  if (subjectInput?.value) composeParts.push(subjectInput.value);
 
   // Contenteditable body (email body, rich-text fields)
   const editables = composeRoot.querySelectorAll<HTMLElement>('[contenteditable="true"]');
   for (const editable of editables) {
     const text = (editable.textContent || "").trim();
-    if (text.length > 5) parts.push(text.slice(0, 300));
+    if (text.length > 5) composeParts.push(text.slice(0, 300));
+  }
+  fields.compose = joinText(composeParts, 800);
+
+  // Earlier steps of a multi-step application (low weight)
+  fields.flowHistory = getFlowContext();
+
+  // Drop empty fields so the request only carries what we found
+  for (const key of Object.keys(fields) as (keyof ContextFields)[]) {
+    if (!fields[key]) delete fields[key];
+  }
+  return fields;
+}
+
+/** Flat + structured context for a zone, as stored on UploadTarget */
+function describeZone(
+  input: HTMLInputElement | null,
+  zone: HTMLElement,
+): Pick<UploadTarget, "context" | "contextFields"> {
+  const contextFields = extractZoneContext(input, zone);
+  return { contextFields, context: flattenContextFields(contextFields) };
+}
+
+/**
+ * Re-extract a target's context (text typed after detection, e.g. a Gmail
+ * body) and drop its cached results if it changed.
+ */
+function refreshZoneContext(target: UploadTarget) {
+  const fresh = describeZone(target.fileInput, target.zone);
+  if (fresh.context === target.context) return;
+  Object.assign(target, fresh);
+  resultCache.delete(target.id);
+}
+
+/** Collapse whitespace, drop our own badge text, truncate */
+function cleanText(text: string | null | undefined, max: number): string {
+  return (text || "")
+    .replace("\u26A1 xUpload", "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, max);
+}
+
+function joinText(parts: string[], max: number): string {
+  const unique = [...new Set(parts.map((p) => cleanText(p, max)).filter(Boolean))];
+  return unique.join(" ").slice(0, max);
+}
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6, [role='heading']";
+
+/**
+ * Nearest heading above the zone: climb a few ancestors and take the last
+ * heading that precedes the zone in document order.
+ */
+function findSectionHeading(zone: HTMLElement): string {
+  let ancestor: HTMLElement | null = zone.parentElement;
+  for (let i = 0; i < 6 && ancestor && ancestor !== zone.ownerDocument.body; i++) {
+    const headings = [...ancestor.querySelectorAll<HTMLElement>(HEADING_SELECTOR)].filter(
+      (h) => !zone.contains(h) && (h.compareDocumentPosition(zone) & Node.DOCUMENT_POSITION_FOLLOWING),
+    );
+    const heading = headings[headings.length - 1];
+    if (heading) return cleanText(heading.textContent, 150);
+    ancestor = ancestor.parentElement;
+  }
+  return "";
+}
+
+/** aria-describedby targets and hint/help/instruction text near the field */
+function findHelperText(input: HTMLInputElement | null, zone: HTMLElement): string {
+  const parts: string[] = [];
+  const describedBy = (input || zone).getAttribute("aria-describedby");
+  if (describedBy) {
+    const root = (input || zone).getRootNode() as Document | ShadowRoot;
+    for (const id of describedBy.split(/\s+/)) {
+      const el = root.querySelector?.(`#${CSS.escape(id)}`);
+      if (el) parts.push(el.textContent || "");
+    }
   }
+  const container = zone.parentElement || zone;
+  container
+    .querySelectorAll(
+      '[class*="hint" i], [class*="help" i], [class*="description" i], [class*="instruction" i], small',
+    )
+    .forEach((el) => {
+      if (!el.closest(`.${PANEL_CLASS}`)) parts.push(el.textContent || "");
+    });
+  return joinText(parts, 300);
+}
+
+/** accept tokens → words a file name or folder is likely to contain */
+const ACCEPT_WORDS: [RegExp, string][] = [
+  [/pdf/, "pdf document"],
+  [/\b(doc|docx|msword|wordprocessingml)\b/, "word document"],
+  [/\b(xls|xlsx|csv|spreadsheetml|ms-excel)\b/, "spreadsheet"],
+  [/\b(ppt|pptx|presentationml)\b/, "presentation slides"],
+  [/image\/|\b(jpe?g|png|gif|webp|heic)\b/, "image photo picture"],
+  [/video\//, "video"],
+  [/audio\//, "audio"],
+  [/\b(zip|rar|7z)\b/, "archive"],
+  [/text\/|\btxt\b/, "text"],
+];
 
-  return parts.join(" ").trim();
+function describeAccept(accept: string): string {
+  const lower = accept.toLowerCase();
+  if (!lower) return "";
+  return ACCEPT_WORDS.filter(([re]) => re.test(lower))
+    .map(([, words]) => words)
+    .join(" ");
 }
 
 /* ================================================================== */
 /*  ZONE MARKING — highlight & attach hover                            */
 /* ================================================================== */
 
+/** Connected zone elements of every registered field */
+function markedZoneElements(): HTMLElement[] {
+  return [...zoneRegistry.values()].map((t) => t.zone).filter((z) => z.isConnected);
+}
+
+/**
+ * Register a detected candidate under its zone ID. A known ID whose element
+ * was replaced gets its existing target rebound (keeping cached results and
+ * any open panel); a known ID whose element is still on the page is a
+ * duplicate and is ignored.
+ */
+function registerZone(candidate: UploadTarget) {
+  const existing = zoneRegistry.get(candidate.id);
+  if (!existing) {
+    markZone(candidate);
+    return;
+  }
+  if (existing.zone === candidate.zone) return;
+
+  if (existing.zone.isConnected) {
+    markedZones.add(candidate.zone);
+    if (candidate.fileInput) markedZones.add(candidate.fileInput);
+    return;
+  }
+
+  unmarkZone(existing.zone);
+  existing.zone = candidate.zone;
+  existing.fileInput = candidate.fileInput;
+  existing.accept = candidate.accept;
+  existing.multiple = candidate.multiple;
+  if (existing.context !== candidate.context) {
+    existing.context = candidate.context;
+    existing.contextFields = candidate.contextFields;
+    resultCache.delete(existing.id);
+  }
+  markZone(existing);
+}
+
+let zoneFrameRegistered = false;
+
+/**
+ * A cross-origin frame with zones tells the background once, so the top
+ * frame's Fill-all sheet can include them (it can't see into this frame).
+ */
+function registerZoneFrame() {
+  if (isTopFrame || zoneFrameRegistered) return;
+  zoneFrameRegistered = true;
+  chrome.runtime.sendMessage({ type: "REGISTER_ZONE_FRAME" }, () => { void chrome.runtime.lastError; });
+}
+
+/** Strip highlight, badge and listeners from a zone element */
+function unmarkZone(zone: HTMLElement) {
+  zone.classList.remove(ZONE_CLASS);
+  zone.querySelector(`:scope > .${BADGE_CLASS}`)?.remove();
+  const handlers = zoneHandlers.get(zone);
+  if (handlers) {
+    for (const [type, listener] of handlers) zone.removeEventListener(type, listener);
+    zoneHandlers.delete(zone);
+  }
+}
+
 function markZone(target: UploadTarget) {
   markedZones.add(target.zone);
-  markedZones.add(target.fileInput);
-  allMarkedZoneEls.add(target.zone);
+  if (target.fileInput) markedZones.add(target.fileInput);
+  zoneRegistry.set(target.id, target);
+  registerZoneFrame();
 
   // Highlight
   target.zone.classList.add(ZONE_CLASS);
@@ -218,8 +904,45 @@ function markZone(target: UploadTarget) {
     if (!extensionEnabled) return;
     onZoneLeave();
   };
-  target.zone.addEventListener("mouseenter", enterHandler);
-  target.zone.addEventListener("mouseleave", leaveHandler);
+
+  // Keyboard: tabbing onto the field (or a button inside the zone) opens the
+  // panel, ArrowDown moves into the result list, Escape closes it
+  const focusHandler = (e: Event) => {
+    const el = e.target as HTMLElement;
+    if (!extensionEnabled || !isKeyboardFocus(el)) return;
+    focusReturnEl = el;
+    openPanelNow(target);
+  };
+  const blurHandler = (e: Event) => {
+    const next = (e as FocusEvent).relatedTarget as Node | null;
+    if (next && (activePanel?.contains(next) || target.zone.contains(next))) return;
+    if (activeTarget?.id === target.id) scheduleHide();
+  };
+  const keyHandler = (e: Event) => {
+    const key = (e as KeyboardEvent).key;
+    if (!extensionEnabled || !activePanel || activeTarget?.id !== target.id) return;
+    if (key === "ArrowDown") {
+      const list = activePanel.querySelector<HTMLElement>('[role="listbox"]');
+      if (!list) return;
+      e.preventDefault();
+      list.focus();
+    } else if (key === "Escape") {
+      e.preventDefault();
+      dismissPanel();
+    }
+  };
+
+  const handlers: [string, EventListener][] = [
+    ["mouseenter", enterHandler],
+    ["mouseleave", leaveHandler],
+    ["focusin", focusHandler],
+    ["focusout", blurHandler],
+    ["keydown", keyHandler],
+  ];
+  for (const [type, listener] of handlers) target.zone.addEventListener(type, listener);
+  zoneHandlers.set(target.zone, handlers);
+
+  if (target.fileInput) watchNativePicks(target.fileInput, target.id);
 }
 
 /* ================================================================== */
@@ -236,10 +959,25 @@ function cancelHide() {
 function scheduleHide(delay = 300) {
   cancelHide();
   hideTimer = setTimeout(() => {
+    hideTimer = null;
+    // Keep the panel while the user is in it with the mouse or keyboard
+    if (activePanel?.matches(":hover") || activePanel?.contains(document.activeElement)) return;
     dismissPanel();
   }, delay);
 }
 
+/** Open the panel for a zone immediately (keyboard focus — no hover delay) */
+function openPanelNow(target: UploadTarget) {
+  cancelHide();
+  if (hoverTimer) {
+    clearTimeout(hoverTimer);
+    hoverTimer = null;
+  }
+  if (activePanel && activeTarget?.id === target.id) return;
+  dismissPanel();
+  showHoverPanel(target);
+}
+
 function dismissPanel() {
   if (activePanel) {
     activePanel.remove();
@@ -251,7 +989,15 @@ function dismissPanel() {
 function onZoneEnter(target: UploadTarget) {
   cancelHide();
   // Already showing for this zone — keep it
-  if (activePanel && activeTarget?.zone === target.zone) return;
+  if (activePanel && activeTarget?.id === target.id) return;
+
+  // Inside a cross-origin frame: refresh our placement in the top viewport
+  // while the hover delay runs, so the panel is clamped to what's visible
+  if (!isTopFrame) {
+    requestFrameGeometry().then((geometry) => {
+      frameGeometry = geometry;
+    });
+  }
 
   // Clear any pending show-timer for a different zone
   if (hoverTimer) {
@@ -282,12 +1028,8 @@ function onZoneLeave() {
 async function showHoverPanel(target: UploadTarget) {
   // Re-extract context at hover time so we pick up email body/subject text
   // that was typed AFTER the zone was first detected (e.g. Gmail compose).
-  const freshContext = extractZoneContext(target.fileInput, target.zone);
-  if (freshContext !== target.context) {
-    target.context = freshContext;
-    // Invalidate stale cached results that were built with the old context.
-    resultCache.delete(target.zone);
-  }
+  // Stale cached results built with the old context are invalidated.
+  refreshZoneContext(target);
 
   const workflowId = createWorkflowId("recommend");
   logWorkflowStep(workflowId, "recommend.start", {
@@ -299,10 +1041,19 @@ async function showHoverPanel(target: UploadTarget) {
   // --- Build skeleton ---
   const panel = document.createElement("div");
   panel.className = PANEL_CLASS;
+  panel.setAttribute("role", "dialog");
+  panel.setAttribute("aria-label", "xUpload file recommendations");
 
   // Keep visible when mouse enters the panel itself
   panel.addEventListener("mouseenter", cancelHide);
   panel.addEventListener("mouseleave", () => scheduleHide());
+  // ...and while keyboard focus is inside it or back on the zone
+  panel.addEventListener("focusout", (e) => {
+    const next = e.relatedTarget as Node | null;
+    if (next && (panel.contains(next) || target.zone.contains(next))) return;
+    scheduleHide();
+  });
+  bindPanelKeys(panel, dismissPanel);
 
   // Header
   const header = document.createElement("div");
@@ -338,18 +1089,20 @@ async function showHoverPanel(target: UploadTarget) {
       return;
     }
 
+    panel.insertBefore(createSearchBox(panel, footer, target, workflowId), header.nextSibling);
+
     // Check cache first
-    const cached = resultCache.get(target.zone);
+    const cached = resultCache.get(target.id);
     if (cached) {
       loadingDiv.remove();
       populateResults(panel, footer, cached, target, workflowId);
       return;
     }
 
-    const results = await fetchRecommendations(target, workflowId);
-    resultCache.set(target.zone, results);
+    const recs = await fetchRecommendations(target, workflowId);
+    resultCache.set(target.id, recs);
     loadingDiv.remove();
-    populateResults(panel, footer, results, target, workflowId);
+    populateResults(panel, footer, recs, target, workflowId);
   } catch (err: any) {
     loadingDiv.remove();
     logWorkflowError(workflowId, "recommend.failed", err);
@@ -374,37 +1127,114 @@ function createFooter(target: UploadTarget): HTMLElement {
     e.preventDefault();
     e.stopPropagation();
     dismissPanel();
-    target.fileInput.click();
+    // Drop-only zones open their own picker when clicked
+    (target.fileInput || target.zone).click();
   });
   footer.appendChild(defaultBtn);
 
   return footer;
 }
 
+/**
+ * Render recommendations — or, with `search`, search-box results carrying
+ * match highlights — into the panel. Replaces any previous render, so the
+ * search box can swap between the two.
+ */
 function populateResults(
   panel: HTMLElement,
   footer: HTMLElement,
-  results: MatchResultItem[],
+  recs: Recommendations,
   target: UploadTarget,
   workflowId: string,
+  search?: { query: string },
 ) {
+  const { results } = recs;
+
+  panel.querySelector(".xupload-results")?.remove();
+  const body = document.createElement("div");
+  body.className = "xupload-results";
+  panel.insertBefore(body, footer);
+
+  if (recs.bundle && !search) {
+    const bundleSection = createBundleSection(recs.bundle, workflowId);
+    if (bundleSection) body.appendChild(bundleSection);
+  }
+
+  const header = panel.querySelector(".xupload-header");
   if (!results.length) {
     const empty = document.createElement("div");
     empty.className = "xupload-empty";
-    empty.textContent = "No matching files found.";
-    panel.insertBefore(empty, footer);
+    empty.textContent = search ? `No files match \u201C${search.query}\u201D.` : "No matching files found.";
+    body.appendChild(empty);
+    if (search && header) header.textContent = "\uD83D\uDD0D No matches";
+    announce(search ? "xUpload: no files match." : "xUpload: no matching files found.");
     return;
   }
 
   // Update header
-  const header = panel.querySelector(".xupload-header");
-  if (header)
-    header.textContent = `\u26A1 ${results.length} file${results.length > 1 ? "s" : ""} recommended`;
+  const countText = search
+    ? `${results.length} match${results.length > 1 ? "es" : ""}`
+    : `${results.length} file${results.length > 1 ? "s" : ""} recommended`;
+  if (header) header.textContent = `${search ? "\uD83D\uDD0D" : "\u26A1"} ${countText}`;
+  announce(`xUpload: ${countText}. Press Down arrow to browse.`);
+
+  // Inputs with the `multiple` attribute get checkbox-style selection and a
+  // combined preview instead of the one-click single-file preview.
+  const multiSelect = target.multiple;
+  const selected = new Set<MatchResultItem>();
+  let multiActions: { bar: HTMLElement; update: () => void } | null = null;
 
   const list = document.createElement("ul");
+  list.setAttribute("role", "listbox");
+  list.setAttribute("aria-label", "Recommended files");
+  if (multiSelect) list.setAttribute("aria-multiselectable", "true");
+  list.tabIndex = 0;
+  const items: HTMLElement[] = [];
+
+  // "Not this file": drop the row, remember the dismissal so this file ranks
+  // lower on this site next time. `results` is the cached array, so the
+  // dismissed file also stays gone when the panel reopens.
+  const dismissResult = (r: MatchResultItem, li: HTMLElement) => {
+    chrome.runtime.sendMessage({
+      type: "DISMISS_SUGGESTION",
+      fileId: r.id,
+      pageUrl: window.location.href,
+      workflowId,
+    } as DismissSuggestionRequest).catch(() => {});
+    logWorkflowStep(workflowId, "recommend.file.dismissed", { fileId: r.id, fileName: r.name });
+
+    results.splice(results.indexOf(r), 1);
+    items.splice(items.indexOf(li), 1);
+    selected.delete(r);
+    li.remove();
+    multiActions?.update();
+    announce(`Dismissed ${r.name}`);
+
+    if (results.length === 0) {
+      populateResults(panel, footer, recs, target, workflowId);
+      return;
+    }
+    if (header) {
+      header.textContent = `\u26A1 ${results.length} file${results.length > 1 ? "s" : ""} recommended`;
+    }
+  };
+
   for (const r of results) {
     const li = document.createElement("li");
     li.className = "xupload-item";
+    li.id = `xupload-option-${nextOptionId++}`;
+    li.setAttribute("role", "option");
+    li.setAttribute("aria-selected", "false");
+    items.push(li);
+
+    let checkbox: HTMLInputElement | null = null;
+    if (multiSelect) {
+      checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.className = "xupload-check";
+      checkbox.tabIndex = -1;
+      li.appendChild(checkbox);
+    }
 
     const icon = document.createElement("span");
     icon.className = "xupload-icon";
@@ -413,17 +1243,26 @@ function populateResults(
     const info = document.createElement("div");
     info.className = "xupload-info";
 
+    const highlights = (r as SearchResultItem).highlights;
+
     const nameSpan = document.createElement("span");
     nameSpan.className = "xupload-name";
-    nameSpan.textContent = r.name;
+    appendHighlighted(nameSpan, r.name, highlights?.name);
 
     const pathSpan = document.createElement("span");
     pathSpan.className = "xupload-path";
-    pathSpan.textContent = r.path;
+    appendHighlighted(pathSpan, r.path, highlights?.path);
 
     info.appendChild(nameSpan);
     info.appendChild(pathSpan);
 
+    if (highlights?.snippet) {
+      const snippet = document.createElement("span");
+      snippet.className = "xupload-snippet";
+      appendHighlighted(snippet, highlights.snippet.text, highlights.snippet.ranges);
+      info.appendChild(snippet);
+    }
+
     if (r.historyCount && r.historyCount > 0) {
       const badge = document.createElement("span");
       badge.className = "xupload-history-badge";
@@ -431,6 +1270,28 @@ function populateResults(
       info.appendChild(badge);
     }
 
+    if (r.explanation && !search) {
+      const explanation = r.explanation;
+      const whyBtn = document.createElement("button");
+      whyBtn.type = "button";
+      whyBtn.className = "xupload-why-toggle";
+      whyBtn.textContent = "why?";
+      whyBtn.tabIndex = -1;
+      whyBtn.setAttribute("aria-expanded", "false");
+      whyBtn.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const open = info.querySelector(".xupload-why");
+        if (open) {
+          open.remove();
+        } else {
+          info.appendChild(createExplanationView(explanation));
+        }
+        whyBtn.setAttribute("aria-expanded", String(!open));
+      });
+      info.appendChild(whyBtn);
+    }
+
     const scoreSpan = document.createElement("span");
     scoreSpan.className = "xupload-score";
     const pct = Math.round(r.score * 100);
@@ -439,6 +1300,40 @@ function populateResults(
     li.appendChild(icon);
     li.appendChild(info);
     li.appendChild(scoreSpan);
+
+    if (!search) {
+      const dismiss = document.createElement("button");
+      dismiss.type = "button";
+      dismiss.className = "xupload-dismiss";
+      dismiss.textContent = "\u2715";
+      dismiss.title = "Not this file";
+      dismiss.setAttribute("aria-label", `Not this file: ${r.name}`);
+      dismiss.tabIndex = -1;
+      dismiss.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        dismissResult(r, li);
+      });
+      li.appendChild(dismiss);
+    }
+
+    if (checkbox) {
+      const box = checkbox;
+      li.title = `Click to toggle: ${r.name}`;
+      li.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (selected.has(r)) selected.delete(r);
+        else selected.add(r);
+        box.checked = selected.has(r);
+        li.classList.toggle("xupload-item-selected", box.checked);
+        li.setAttribute("aria-selected", String(box.checked));
+        multiActions?.update();
+      });
+      list.appendChild(li);
+      continue;
+    }
+
     li.title = `Click to select: ${r.name}`;
 
     li.addEventListener("click", async (e) => {
@@ -463,26 +1358,697 @@ function populateResults(
         logWorkflowStep(workflowId, "recommend.file.read_failed", {
           fileId: r.id,
         });
+        showPermissionError(panel, footer);
+        return;
+      }
 
-        // Show inline error message
-        const errorDiv = document.createElement("div");
-        errorDiv.className = "xupload-permission-error";
-        errorDiv.textContent = "⚠️ Permission expired. Please click the ⚡ xUpload icon and click 'Rescan folder' to re-authorize.";
-        errorDiv.style.cssText = "padding: 8px; margin: 8px 0; background: #fef7e0; border-radius: 4px; font-size: 12px; color: #856404;";
+      // Switch to preview (standalone panel, hover panel dismissed).
+      // Keyboard activation (Enter) moves focus to "Use this file".
+      dismissPanel();
+      showPreview(target, file, r, workflowId, e.detail === 0);
+    });
 
-        panel.insertBefore(errorDiv, footer);
+    list.appendChild(li);
+  }
+
+  attachListboxKeyboard(list, items);
+  body.appendChild(list);
+
+  if (multiSelect) {
+    multiActions = createMultiSelectActions(panel, footer, results, selected, target, workflowId);
+    body.appendChild(multiActions.bar);
+  }
+}
+
+const SIGNAL_LABELS: Record<RankingSignal, string> = {
+  dense: "Meaning match",
+  tfidf: "Keywords",
+  history: "Used here before",
+  path: "File name / folder",
+  content: "File content",
+  pathMemory: "Usual folder",
+};
+
+/**
+ * "Why this file?" breakdown: one bar per ranking signal (bar = signal value,
+ * number = its contribution to the score, or its rank among the candidates
+ * under rank fusion) and the context terms the file matched.
+ */
+function createExplanationView(explanation: MatchExplanation): HTMLElement {
+  const view = document.createElement("div");
+  view.className = "xupload-why";
+  // Reading the breakdown shouldn't select the file
+  view.addEventListener("click", (e) => e.stopPropagation());
+
+  for (const signal of Object.keys(SIGNAL_LABELS) as RankingSignal[]) {
+    const value = explanation.signals[signal];
+    const weight = explanation.weights[signal];
+    if (weight === 0 && value === 0) continue;
+
+    const row = document.createElement("div");
+    row.className = "xupload-why-row";
+
+    const label = document.createElement("span");
+    label.className = "xupload-why-label";
+    label.textContent = SIGNAL_LABELS[signal];
+
+    const bar = document.createElement("span");
+    bar.className = "xupload-why-bar";
+    const fill = document.createElement("span");
+    fill.className = "xupload-why-fill";
+    fill.style.width = `${Math.round(Math.min(1, value) * 100)}%`;
+    bar.appendChild(fill);
+
+    const contribution = document.createElement("span");
+    contribution.className = "xupload-why-value";
+    const rank = explanation.ranks?.[signal];
+    if (explanation.fusion === "rrf") {
+      contribution.textContent = rank ? `#${rank}` : "\u2013";
+      contribution.title = `Rank ${rank ?? "\u2013"} on this signal, weight ${weight.toFixed(2)}`;
+    } else {
+      contribution.textContent = `+${Math.round(value * weight * 100)}`;
+      contribution.title = `${Math.round(value * 100)}% \u00D7 weight ${weight.toFixed(2)}`;
+    }
+
+    row.append(label, bar, contribution);
+    view.appendChild(row);
+  }
+
+  if (explanation.dismissPenalty > 0) {
+    const row = document.createElement("div");
+    row.className = "xupload-why-row xupload-why-penalty";
+    row.textContent = `Dismissed here before: \u2212${Math.round(explanation.dismissPenalty * 100)}`;
+    view.appendChild(row);
+  }
+
+  if (explanation.matchedTerms.length > 0) {
+    const terms = document.createElement("div");
+    terms.className = "xupload-why-terms";
+    terms.appendChild(document.createTextNode("Matched: "));
+    for (const term of explanation.matchedTerms) {
+      const mark = document.createElement("mark");
+      mark.className = "xupload-mark";
+      mark.textContent = term;
+      terms.appendChild(mark);
+      terms.appendChild(document.createTextNode(" "));
+    }
+    view.appendChild(terms);
+  }
+
+  const source = document.createElement("div");
+  source.className = "xupload-why-source";
+  source.textContent = (explanation.weightSource === "learned"
+    ? "Weights learned from your past picks"
+    : "Default weights") + (explanation.fusion === "rrf" ? " \u00B7 rank fusion" : "");
+  view.appendChild(source);
+
+  return view;
+}
+
+/** Append `text` to `el`, wrapping the given [start, end) ranges in <mark> */
+function appendHighlighted(el: HTMLElement, text: string, ranges: MatchRange[] = []) {
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    if (start < pos || start >= text.length) continue;
+    if (start > pos) el.appendChild(document.createTextNode(text.slice(pos, start)));
+    const mark = document.createElement("mark");
+    mark.className = "xupload-mark";
+    mark.textContent = text.slice(start, end);
+    el.appendChild(mark);
+    pos = end;
+  }
+  if (pos < text.length) el.appendChild(document.createTextNode(text.slice(pos)));
+}
+
+/**
+ * Search box at the top of the panel: when the recommendations are wrong,
+ * typing runs a live fuzzy search over every indexed file (name, path and
+ * text preview). Clearing it brings the recommendations back. Picking a
+ * result goes through the normal preview → fill → TRACK_UPLOAD flow.
+ */
+function createSearchBox(
+  panel: HTMLElement,
+  footer: HTMLElement,
+  target: UploadTarget,
+  workflowId: string,
+): HTMLElement {
+  const wrap = document.createElement("div");
+  wrap.className = "xupload-search";
+
+  const input = document.createElement("input");
+  input.type = "search";
+  input.className = "xupload-search-input";
+  input.placeholder = "Search all indexed files\u2026";
+  input.setAttribute("aria-label", "Search indexed files");
+  wrap.appendChild(input);
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let seq = 0;
+
+  const run = async () => {
+    const query = input.value.trim();
+    const mySeq = ++seq;
+    if (query.length < 2) {
+      const cached = resultCache.get(target.id);
+      if (cached) populateResults(panel, footer, cached, target, workflowId);
+      return;
+    }
+    logWorkflowStep(workflowId, "search.query", { query });
+    try {
+      const msg: SearchRequest = {
+        type: "SEARCH_REQUEST",
+        query,
+        accept: target.accept,
+        workflowId,
+      };
+      const resp: SearchResponse = await chrome.runtime.sendMessage(msg);
+      // A newer keystroke (or a closed panel) wins
+      if (mySeq !== seq || !panel.isConnected) return;
+      logWorkflowStep(workflowId, "search.results", {
+        query,
+        resultCount: resp?.results?.length || 0,
+      });
+      populateResults(panel, footer, { results: resp?.results || [] }, target, workflowId, { query });
+    } catch (err) {
+      logWorkflowError(workflowId, "search.failed", err);
+    }
+  };
+
+  input.addEventListener("input", () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, 150);
+  });
+  input.addEventListener("keydown", (e) => {
+    if (e.key === "Escape") return; // let the panel close
+    // Keep page shortcuts (Gmail, Slack, ...) from reacting to typing
+    e.stopPropagation();
+    if (e.key === "ArrowDown" || e.key === "Enter") {
+      const list = panel.querySelector<HTMLElement>('[role="listbox"]');
+      if (list) {
+        e.preventDefault();
+        list.focus();
+      }
+    }
+  });
+  input.addEventListener("keyup", (e) => e.stopPropagation());
+  input.addEventListener("keypress", (e) => e.stopPropagation());
+
+  return wrap;
+}
+
+function showPermissionError(panel: HTMLElement, footer: HTMLElement) {
+  // Show inline error message
+  const errorDiv = document.createElement("div");
+  errorDiv.className = "xupload-permission-error";
+  errorDiv.textContent = "⚠️ Permission expired. Please click the ⚡ xUpload icon and click 'Rescan folder' to re-authorize.";
+  errorDiv.style.cssText = "padding: 8px; margin: 8px 0; background: #fef7e0; border-radius: 4px; font-size: 12px; color: #856404;";
+
+  panel.insertBefore(errorDiv, footer);
+}
+
+/**
+ * Action bar for multi-select panels: shows how many files are checked and
+ * opens the combined preview once every selected file has been read.
+ */
+function createMultiSelectActions(
+  panel: HTMLElement,
+  footer: HTMLElement,
+  results: MatchResultItem[],
+  selected: Set<MatchResultItem>,
+  target: UploadTarget,
+  workflowId: string,
+): { bar: HTMLElement; update: () => void } {
+  const bar = document.createElement("div");
+  bar.className = "xupload-multi-actions";
+
+  const previewBtn = document.createElement("button");
+  previewBtn.type = "button";
+  previewBtn.className = "xupload-preview-btn xupload-preview-use";
+
+  const update = () => {
+    previewBtn.disabled = selected.size === 0;
+    previewBtn.textContent = selected.size === 0
+      ? "Select files to upload"
+      : `Preview ${selected.size} file${selected.size > 1 ? "s" : ""}`;
+  };
+  update();
+
+  previewBtn.addEventListener("click", async (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (selected.size === 0) return;
+
+    // Keep panel order rather than click order
+    const picks = results.filter((r) => selected.has(r));
+    previewBtn.disabled = true;
+    previewBtn.textContent = "Loading\u2026";
+    logWorkflowStep(workflowId, "recommend.multi.preview", {
+      fileIds: picks.map((r) => r.id),
+    });
+
+    const loaded: { file: File; result: MatchResultItem }[] = [];
+    for (const r of picks) {
+      const file = await getFile(r.id, workflowId);
+      if (!file) {
+        logWorkflowStep(workflowId, "recommend.file.read_failed", {
+          fileId: r.id,
+        });
+        showPermissionError(panel, footer);
+        update();
         return;
       }
+      loaded.push({ file, result: r });
+    }
 
-      // Switch to preview (standalone panel, hover panel dismissed)
-      dismissPanel();
-      showPreview(target, file, r, workflowId);
+    dismissPanel();
+    showMultiPreview(target, loaded, workflowId, e.detail === 0);
+  });
+
+  bar.appendChild(previewBtn);
+  return { bar, update };
+}
+
+/* ================================================================== */
+/*  UPLOAD BUNDLES — files usually uploaded together on this page      */
+/* ================================================================== */
+
+/**
+ * Bundle row shown above the results: lists the co-uploaded files and fills
+ * every zone on the page with its matching member in one click. Hidden when
+ * fewer than two members can be placed into a compatible zone.
+ */
+function createBundleSection(
+  bundle: UploadBundle,
+  workflowId: string,
+): HTMLElement | null {
+  const targets = [...zoneRegistry.values()].filter((t) => t.zone.isConnected);
+  const assignment = assignBundleToZones(bundle.members, targets);
+  const assignedCount = [...assignment.values()].reduce((n, m) => n + m.length, 0);
+  if (assignedCount < 2) return null;
+
+  const section = document.createElement("div");
+  section.className = "xupload-bundle";
+
+  const title = document.createElement("div");
+  title.className = "xupload-bundle-title";
+  title.textContent = `\uD83D\uDCE6 Usually uploaded together (${bundle.sessions}\u00D7)`;
+  section.appendChild(title);
+
+  const files = document.createElement("div");
+  files.className = "xupload-bundle-files";
+  files.textContent = bundle.members.map((m) => m.name).join(", ");
+  section.appendChild(files);
+
+  const fillBtn = document.createElement("button");
+  fillBtn.type = "button";
+  fillBtn.className = "xupload-bundle-btn";
+  const zoneCount = assignment.size;
+  const label = zoneCount > 1
+    ? `Fill ${zoneCount} fields with ${assignedCount} files`
+    : `Add all ${assignedCount} files`;
+  fillBtn.textContent = label;
+
+  fillBtn.addEventListener("click", async (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    fillBtn.disabled = true;
+    fillBtn.textContent = "Filling\u2026";
+    logWorkflowStep(workflowId, "recommend.bundle.fill.start", {
+      zones: zoneCount,
+      files: assignedCount,
     });
 
+    let filled = 0;
+    for (const [zoneTarget, members] of assignment) {
+      const files: File[] = [];
+      for (const m of members) {
+        const file = await getFile(m.id, workflowId);
+        if (file) files.push(file);
+      }
+      if (files.length === 0) continue;
+      if (fillFileWithObj(zoneTarget, files)) {
+        filled += files.length;
+        trackUploads(zoneTarget, members, workflowId);
+        resultCache.delete(zoneTarget.id);
+      }
+    }
+
+    logWorkflowStep(workflowId, "recommend.bundle.fill.done", { filled });
+    if (filled === 0) {
+      fillBtn.disabled = false;
+      fillBtn.textContent = label;
+      return;
+    }
+    fillBtn.textContent = `\u2713 ${filled} file${filled > 1 ? "s" : ""} filled`;
+    fillBtn.classList.add("xupload-preview-done");
+    setTimeout(() => dismissPanel(), 600);
+  });
+  section.appendChild(fillBtn);
+
+  return section;
+}
+
+/**
+ * Place each bundle member into the zone whose context best matches the
+ * contexts that file was uploaded with before. Greedy over all pairs, best
+ * score first; a zone takes several members only if its input is `multiple`.
+ */
+function assignBundleToZones(
+  members: UploadBundleMember[],
+  targets: UploadTarget[],
+): Map<UploadTarget, UploadBundleMember[]> {
+  const pairs: { member: UploadBundleMember; target: UploadTarget; score: number }[] = [];
+  for (const member of members) {
+    const memberText = member.contexts.length > 0
+      ? member.contexts.join(" ")
+      : member.path.replace(/[/\\._-]/g, " ");
+    const memberTokens = new Set(tokenizeFiltered(memberText));
+    for (const target of targets) {
+      if (!acceptsFile(target.accept, member.name, member.type)) continue;
+      pairs.push({ member, target, score: tokenOverlap(memberTokens, target.context) });
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const assignment = new Map<UploadTarget, UploadBundleMember[]>();
+  const placed = new Set<UploadBundleMember>();
+  for (const { member, target } of pairs) {
+    if (placed.has(member)) continue;
+    const current = assignment.get(target);
+    if (current && !target.multiple) continue;
+    if (current) current.push(member);
+    else assignment.set(target, [member]);
+    placed.add(member);
+  }
+  return assignment;
+}
+
+/** Overlap coefficient between a token set and the filtered tokens of `text` */
+function tokenOverlap(tokens: Set<string>, text: string): number {
+  const other = new Set(tokenizeFiltered(text));
+  if (tokens.size === 0 || other.size === 0) return 0;
+  let matches = 0;
+  for (const t of tokens) {
+    if (other.has(t)) matches++;
+  }
+  return matches / Math.min(tokens.size, other.size);
+}
+
+/** Same accept-attribute semantics as the background's search filter */
+function acceptsFile(accept: string | undefined, name: string, type: string): boolean {
+  if (!accept) return true;
+  const ext = "." + getFileExt(name);
+  const mime = type.toLowerCase();
+  return accept
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter(Boolean)
+    .some(
+      (a) =>
+        a === ext ||
+        a === mime ||
+        (a.endsWith("/*") && mime.startsWith(a.replace("/*", "/"))),
+    );
+}
+
+/* ================================================================== */
+/*  FILL ALL — one review sheet for every zone on the page             */
+/* ================================================================== */
+
+/**
+ * A field on the review sheet: one of this frame's zones, or one a
+ * cross-origin frame (an embedded Greenhouse / Lever / Workday form) reported
+ * through the background.
+ */
+interface FillAllZone {
+  label: string;
+  results: MatchResultItem[];
+  target?: UploadTarget;
+  frame?: { frameId: number; zoneId: string };
+}
+
+interface FillAllRow {
+  zone: FillAllZone;
+  /** Currently chosen file, or null when the zone is skipped */
+  choice: MatchResultItem | null;
+  select: HTMLSelectElement;
+  approve: HTMLInputElement;
+}
+
+/** Recommendations for each connected zone of this frame (cached results are reused, stale context is refreshed) */
+async function recommendForZones(
+  workflowId: string,
+): Promise<{ target: UploadTarget; results: MatchResultItem[] }[]> {
+  const perZone: { target: UploadTarget; results: MatchResultItem[] }[] = [];
+  for (const target of [...zoneRegistry.values()].filter((t) => t.zone.isConnected)) {
+    refreshZoneContext(target);
+    try {
+      let recs = resultCache.get(target.id);
+      if (!recs) {
+        recs = await fetchRecommendations(target, workflowId);
+        resultCache.set(target.id, recs);
+      }
+      perZone.push({ target, results: recs.results });
+    } catch (err) {
+      logWorkflowError(workflowId, "fill_all.recommend.failed", err);
+      perZone.push({ target, results: [] });
+    }
+  }
+  return perZone;
+}
+
+/** Zones of the cross-origin frames in this tab, with their recommendations */
+async function collectFrameZones(workflowId: string): Promise<FillAllZone[]> {
+  try {
+    const req: CollectFrameZonesRequest = { type: "COLLECT_FRAME_ZONES", workflowId };
+    const resp = await chrome.runtime.sendMessage(req) as FrameZonesResponse | undefined;
+    return (resp?.zones || []).map((zone) => ({
+      label: zone.label,
+      results: zone.results,
+      frame: { frameId: zone.frameId!, zoneId: zone.zoneId },
+    }));
+  } catch (err) {
+    logWorkflowError(workflowId, "fill_all.frames.failed", err);
+    return [];
+  }
+}
+
+/**
+ * Recommend files for every marked zone on the page — this frame's and those
+ * of cross-origin frames — give each file to at most one zone, and show a
+ * single review sheet. Approved pairs are filled on confirm.
+ */
+async function fillAllZones(workflowId: string): Promise<FillAllZonesResponse> {
+  logWorkflowStep(workflowId, "fill_all.start", { zoneCount: zoneRegistry.size });
+
+  dismissPanel();
+  document.querySelectorAll(`.${PANEL_CLASS}`).forEach((el) => el.remove());
+
+  const sheet = document.createElement("div");
+  sheet.className = PANEL_CLASS + " xupload-fill-all";
+
+  const header = document.createElement("div");
+  header.className = "xupload-header";
+  header.textContent = "\u26A1 Fill all upload fields";
+  sheet.appendChild(header);
+
+  const body = document.createElement("div");
+  body.className = "xupload-loading-msg";
+  body.textContent = "Finding files for upload fields\u2026";
+  sheet.appendChild(body);
+
+  const actions = document.createElement("div");
+  actions.className = "xupload-preview-actions";
+  const cancelBtn = document.createElement("button");
+  cancelBtn.type = "button";
+  cancelBtn.className = "xupload-preview-btn xupload-preview-back";
+  cancelBtn.textContent = "Cancel";
+  cancelBtn.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    sheet.remove();
+  });
+  actions.appendChild(cancelBtn);
+  sheet.appendChild(actions);
+
+  document.body.appendChild(sheet);
+
+  // Frames work out their recommendations while we do ours
+  const frameZones = collectFrameZones(workflowId);
+  const zones: FillAllZone[] = (await recommendForZones(workflowId)).map(({ target, results }) => ({
+    label: zoneLabel(target),
+    results,
+    target,
+  }));
+  zones.push(...await frameZones);
+
+  if (zones.length === 0) {
+    body.textContent = "No upload fields found on this page.";
+    cancelBtn.textContent = "Close";
+    return { ok: true, zoneCount: 0 };
+  }
+
+  const assignment = assignUniqueFiles(zones);
+  logWorkflowStep(workflowId, "fill_all.assigned", zones.map((zone) => ({
+    context: zone.label,
+    frameId: zone.frame?.frameId ?? null,
+    fileId: assignment.get(zone)?.id || null,
+  })));
+
+  body.remove();
+  const list = document.createElement("ul");
+  list.className = "xupload-fill-all-list";
+  const rows: FillAllRow[] = [];
+
+  const fillBtn = document.createElement("button");
+  fillBtn.type = "button";
+  fillBtn.className = "xupload-preview-btn xupload-preview-use";
+  const updateFillBtn = () => {
+    const n = rows.filter((r) => r.approve.checked && r.choice).length;
+    fillBtn.disabled = n === 0;
+    fillBtn.textContent = `Fill ${n} field${n === 1 ? "" : "s"}`;
+  };
+
+  for (const zone of zones) {
+    const { target, results } = zone;
+    const li = document.createElement("li");
+    li.className = "xupload-fill-all-row";
+
+    const approve = document.createElement("input");
+    approve.type = "checkbox";
+    approve.className = "xupload-check";
+
+    const info = document.createElement("div");
+    info.className = "xupload-info";
+    const label = document.createElement("span");
+    label.className = "xupload-name";
+    label.textContent = zone.label;
+    if (target) {
+      label.title = "Show this field";
+      label.addEventListener("click", () => {
+        target.zone.scrollIntoView({ behavior: "smooth", block: "center" });
+      });
+    } else {
+      label.title = "In an embedded form on this page";
+    }
+
+    const select = document.createElement("select");
+    select.className = "xupload-fill-all-select";
+    const skip = document.createElement("option");
+    skip.value = "";
+    skip.textContent = results.length > 0 ? "\u2014 Skip \u2014" : "No matching files";
+    select.appendChild(skip);
+    for (const r of results) {
+      const opt = document.createElement("option");
+      opt.value = r.id;
+      opt.textContent = `${r.name} (${Math.round(r.score * 100)}%)`;
+      select.appendChild(opt);
+    }
+
+    const choice = assignment.get(zone) || null;
+    select.value = choice?.id || "";
+    approve.checked = !!choice;
+    approve.disabled = results.length === 0;
+
+    const row: FillAllRow = { zone, choice, select, approve };
+    rows.push(row);
+
+    select.addEventListener("change", () => {
+      row.choice = results.find((r) => r.id === select.value) || null;
+      approve.checked = !!row.choice;
+      // Keep files unique: whichever other row held this file is skipped
+      if (row.choice) {
+        for (const other of rows) {
+          if (other !== row && other.choice?.id === row.choice.id) {
+            other.choice = null;
+            other.select.value = "";
+            other.approve.checked = false;
+          }
+        }
+      }
+      updateFillBtn();
+    });
+    approve.addEventListener("change", updateFillBtn);
+
+    info.appendChild(label);
+    info.appendChild(select);
+    li.appendChild(approve);
+    li.appendChild(info);
     list.appendChild(li);
   }
+  sheet.insertBefore(list, actions);
+
+  fillBtn.addEventListener("click", async (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const approved = rows.filter((r) => r.approve.checked && r.choice);
+    fillBtn.disabled = true;
+    fillBtn.textContent = "Filling\u2026";
+    logWorkflowStep(workflowId, "fill_all.fill.start", { approved: approved.length });
+
+    let filled = 0;
+    for (const row of approved) {
+      const result = row.choice!;
+      const { target, frame } = row.zone;
+      if (frame) {
+        // The frame that owns the zone reads the file and fills it
+        const req: FillFrameZoneRequest = { type: "FILL_FRAME_ZONE", ...frame, result, workflowId };
+        const resp = await chrome.runtime.sendMessage(req) as FillFrameZoneResponse | undefined;
+        if (resp?.ok) filled++;
+        continue;
+      }
+      if (target && await fillZoneWith(target, result, workflowId)) filled++;
+    }
+
+    logWorkflowStep(workflowId, "fill_all.fill.done", { filled, approved: approved.length });
+    fillBtn.textContent = filled === approved.length
+      ? `\u2713 ${filled} field${filled === 1 ? "" : "s"} filled`
+      : `${filled}/${approved.length} filled`;
+    if (filled > 0) fillBtn.classList.add("xupload-preview-done");
+    setTimeout(() => sheet.remove(), 900);
+  });
+  actions.appendChild(fillBtn);
+  updateFillBtn();
+
+  return { ok: true, zoneCount: zones.length };
+}
+
+/** Read a recommended file and put it into one of this frame's zones */
+async function fillZoneWith(target: UploadTarget, result: MatchResultItem, workflowId: string): Promise<boolean> {
+  const file = await getFile(result.id, workflowId);
+  if (!file) {
+    logWorkflowStep(workflowId, "recommend.file.read_failed", { fileId: result.id });
+    return false;
+  }
+  if (!fillFileWithObj(target, [file])) return false;
+  trackUploads(target, [result], workflowId);
+  resultCache.delete(target.id);
+  return true;
+}
+
+/**
+ * Give each zone its best file such that no file lands in two zones.
+ * Greedy over all (zone, file) pairs, highest score first.
+ */
+function assignUniqueFiles<Z extends { results: MatchResultItem[] }>(zones: Z[]): Map<Z, MatchResultItem> {
+  const pairs = zones.flatMap((zone) => zone.results.map((result) => ({ zone, result })));
+  pairs.sort((a, b) => b.result.score - a.result.score);
+
+  const assignment = new Map<Z, MatchResultItem>();
+  const usedFiles = new Set<string>();
+  for (const { zone, result } of pairs) {
+    if (assignment.has(zone) || usedFiles.has(result.id)) continue;
+    assignment.set(zone, result);
+    usedFiles.add(result.id);
+  }
+  return assignment;
+}
 
-  panel.insertBefore(list, footer);
+/** Short human label for a zone in the review sheet */
+function zoneLabel(target: UploadTarget): string {
+  const text = target.context.replace(/\s+/g, " ").trim();
+  if (!text) return "Upload field";
+  return text.length > 60 ? `${text.slice(0, 57)}\u2026` : text;
 }
 
 /* ================================================================== */
@@ -526,10 +2092,10 @@ function showInlineScan(
       panel.insertBefore(loadingDiv, footer);
 
       try {
-        const results = await fetchRecommendations(target, workflowId);
-        resultCache.set(target.zone, results);
+        const recs = await fetchRecommendations(target, workflowId);
+        resultCache.set(target.id, recs);
         loadingDiv.remove();
-        populateResults(panel, footer, results, target, workflowId);
+        populateResults(panel, footer, recs, target, workflowId);
       } catch {
         loadingDiv.remove();
       }
@@ -543,29 +2109,184 @@ function showInlineScan(
   panel.insertBefore(scanBtn, footer);
 }
 
-/* ================================================================== */
-/*  PANEL POSITIONING                                                  */
-/* ================================================================== */
+/* ================================================================== */
+/*  KEYBOARD & SCREEN READERS                                          */
+/* ================================================================== */
+
+let nextOptionId = 1;
+let liveRegion: HTMLElement | null = null;
+
+/** Speak a message through a visually hidden polite live region */
+function announce(message: string) {
+  if (!liveRegion?.isConnected) {
+    liveRegion = document.createElement("div");
+    liveRegion.className = "xupload-sr-only";
+    liveRegion.setAttribute("role", "status");
+    liveRegion.setAttribute("aria-live", "polite");
+    document.body.appendChild(liveRegion);
+  }
+  // Clear first so repeating the same message is announced again
+  liveRegion.textContent = "";
+  const region = liveRegion;
+  setTimeout(() => {
+    region.textContent = message;
+  }, 50);
+}
+
+/** Focus that arrived via keyboard (Tab), not a mouse click */
+function isKeyboardFocus(el: Element): boolean {
+  try {
+    return el.matches(":focus-visible");
+  } catch {
+    return false;
+  }
+}
+
+function restoreFocus() {
+  if (focusReturnEl?.isConnected) focusReturnEl.focus();
+  focusReturnEl = null;
+}
+
+/** Escape closes the panel and returns focus to the field it was opened from */
+function bindPanelKeys(panel: HTMLElement, close: () => void) {
+  panel.addEventListener("keydown", (e) => {
+    if (e.key !== "Escape") return;
+    e.preventDefault();
+    e.stopPropagation();
+    close();
+    restoreFocus();
+  });
+}
+
+/**
+ * Listbox keyboard model: focus stays on the list, the active option is
+ * tracked with aria-activedescendant. Arrows/Home/End move, Enter or Space
+ * activates (preview in single-select, toggle in multi-select), Delete
+ * dismisses the active option when it has a "not this file" button, and
+ * Right/Left open and close its "why?" breakdown.
+ */
+function attachListboxKeyboard(list: HTMLElement, items: HTMLElement[]) {
+  if (items.length === 0) return;
+  let active = -1;
+  const setActive = (index: number) => {
+    items[active]?.classList.remove("xupload-item-active");
+    active = (index + items.length) % items.length;
+    const item = items[active];
+    item.classList.add("xupload-item-active");
+    list.setAttribute("aria-activedescendant", item.id);
+    item.scrollIntoView({ block: "nearest" });
+  };
+
+  list.addEventListener("focus", () => {
+    if (active < 0) setActive(0);
+  });
+  list.addEventListener("keydown", (e) => {
+    switch (e.key) {
+      case "ArrowDown":
+        setActive(active + 1);
+        break;
+      case "ArrowUp":
+        setActive(active - 1);
+        break;
+      case "Home":
+        setActive(0);
+        break;
+      case "End":
+        setActive(items.length - 1);
+        break;
+      case "Enter":
+      case " ":
+        if (active >= 0) items[active].click();
+        break;
+      case "ArrowRight":
+      case "ArrowLeft": {
+        const toggle = items[active]?.querySelector<HTMLElement>(".xupload-why-toggle");
+        if (!toggle) return;
+        const expanded = toggle.getAttribute("aria-expanded") === "true";
+        if (expanded !== (e.key === "ArrowRight")) toggle.click();
+        break;
+      }
+      case "Delete": {
+        const dismiss = items[active]?.querySelector<HTMLElement>(".xupload-dismiss");
+        if (!dismiss) return;
+        dismiss.click();
+        // The handler removed the option from `items`; keep the cursor in place
+        if (items.length > 0) {
+          active = Math.min(active, items.length - 1);
+          setActive(active);
+        }
+        break;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  });
+}
+
+/* ================================================================== */
+/*  PANEL POSITIONING                                                  */
+/* ================================================================== */
+
+/**
+ * Zone rect in top-window viewport coordinates. Zones inside same-origin
+ * frames are offset by each enclosing frame element's position and border.
+ */
+function getViewportRect(el: Element): { top: number; left: number; bottom: number; right: number; width: number; height: number } {
+  const r = el.getBoundingClientRect();
+  let top = r.top;
+  let left = r.left;
+  let win: Window | null = el.ownerDocument.defaultView;
+  while (win && win !== window) {
+    const frameEl = win.frameElement as HTMLElement | null;
+    if (!frameEl) break;
+    const fr = frameEl.getBoundingClientRect();
+    top += fr.top + frameEl.clientTop;
+    left += fr.left + frameEl.clientLeft;
+    win = win.parent;
+  }
+  return { top, left, bottom: top + r.height, right: left + r.width, width: r.width, height: r.height };
+}
+
+/**
+ * The part of this window's viewport the user can actually see. In the top
+ * frame that's the whole viewport; a cross-origin frame (e.g. an auto-sized
+ * ATS embed taller than the screen) is clipped by the top viewport.
+ */
+function getVisibleBounds(): { top: number; left: number; bottom: number; right: number } {
+  const bounds = { top: 0, left: 0, bottom: window.innerHeight, right: window.innerWidth };
+  if (!frameGeometry) return bounds;
+  const g = frameGeometry;
+  const top = Math.max(0, -g.top);
+  const left = Math.max(0, -g.left);
+  const bottom = Math.min(bounds.bottom, g.viewportHeight - g.top);
+  const right = Math.min(bounds.right, g.viewportWidth - g.left);
+  // Frame scrolled fully out of view — fall back to its own viewport
+  if (bottom - top < 100 || right - left < 100) return bounds;
+  return { top, left, bottom, right };
+}
 
 function positionPanel(panel: HTMLElement, zone: HTMLElement) {
-  const rect = zone.getBoundingClientRect();
+  const rect = getViewportRect(zone);
+  const bounds = getVisibleBounds();
   panel.style.position = "fixed";
   panel.style.zIndex = "2147483647";
 
-  // Horizontal: align to zone left, clamp to viewport
-  const left = Math.max(4, Math.min(rect.left, window.innerWidth - 380));
+  // Horizontal: align to zone left, clamp to visible area
+  const left = Math.max(bounds.left + 4, Math.min(rect.left, bounds.right - 380));
   panel.style.left = `${left}px`;
 
   // Temporarily place off-screen to measure actual height
   panel.style.top = "-9999px";
-  panel.style.maxHeight = `${window.innerHeight - 16}px`;
+  panel.style.maxHeight = `${bounds.bottom - bounds.top - 16}px`;
   panel.style.overflowY = "auto";
 
   // Use requestAnimationFrame so the browser has laid out the panel
   requestAnimationFrame(() => {
     const panelHeight = panel.getBoundingClientRect().height;
-    const spaceBelow = window.innerHeight - rect.bottom - 8;
-    const spaceAbove = rect.top - 8;
+    const spaceBelow = bounds.bottom - rect.bottom - 8;
+    const spaceAbove = rect.top - bounds.top - 8;
 
     let top: number;
     if (spaceBelow >= panelHeight) {
@@ -577,13 +2298,13 @@ function positionPanel(panel: HTMLElement, zone: HTMLElement) {
     } else {
       // Not enough room either way — pin to top/bottom with padding
       if (spaceBelow >= spaceAbove) {
-        top = window.innerHeight - panelHeight - 8;
+        top = bounds.bottom - panelHeight - 8;
       } else {
-        top = 8;
+        top = bounds.top + 8;
       }
     }
 
-    panel.style.top = `${Math.max(8, top)}px`;
+    panel.style.top = `${Math.max(bounds.top + 8, top)}px`;
   });
 }
 
@@ -602,20 +2323,42 @@ async function getConfig(): Promise<XUploadConfig> {
 async function fetchRecommendations(
   target: UploadTarget,
   workflowId: string,
-): Promise<MatchResultItem[]> {
+): Promise<Recommendations> {
   const config = await getConfig();
   logWorkflowStep(workflowId, "recommend.config.loaded", {
     mode: config.mode,
     hasApiKey: !!config.apiKey,
+    provider: config.provider || "gemini",
   });
 
+  // Upload forms embedded in a cross-origin iframe can't see the job title or
+  // company on the host page — borrow it from the top frame
+  let context = target.context;
+  let contextFields = target.contextFields;
+  const parentContext = await fetchParentPageContext(workflowId);
+  if (parentContext) {
+    contextFields = { ...contextFields, page: parentContext };
+    context = flattenContextFields(contextFields);
+    logWorkflowStep(workflowId, "recommend.parent_context", {
+      parentContextPreview: parentContext.slice(0, 140),
+    });
+  }
+
   // Enhanced matching (fast / vlm)
-  if (config.apiKey && config.mode !== "tfidf") {
+  if (config.mode !== "tfidf" && isProviderConfigured(config)) {
     let screenshotBase64: string | undefined;
 
     if (config.mode === "vlm") {
       try {
-        const rect = target.zone.getBoundingClientRect();
+        // The screenshot is of the whole tab: shift frame-local coordinates
+        // into the top viewport
+        const local = getViewportRect(target.zone);
+        const geometry = isTopFrame ? null : await requestFrameGeometry();
+        const rect = {
+          top: local.top + (geometry?.top || 0),
+          left: local.left + (geometry?.left || 0),
+        };
+        const viewportWidth = geometry?.viewportWidth || window.innerWidth;
         const captureResp = await chrome.runtime.sendMessage({
           type: "CAPTURE_TAB",
         });
@@ -623,7 +2366,7 @@ async function fetchRecommendations(
           screenshotBase64 = await cropScreenshot(captureResp.base64, {
             top: Math.max(0, rect.top - 150),
             left: Math.max(0, rect.left - 100),
-            width: Math.min(800, window.innerWidth - rect.left + 200),
+            width: Math.min(800, viewportWidth - rect.left + 200),
             height: Math.min(600, 400),
           });
         }
@@ -638,7 +2381,8 @@ async function fetchRecommendations(
 
     const msg: MatchRequestEnhanced = {
       type: "MATCH_REQUEST_ENHANCED",
-      context: target.context,
+      context,
+      contextFields,
       accept: target.accept,
       pageUrl: window.location.href,
       workflowId,
@@ -653,15 +2397,17 @@ async function fetchRecommendations(
       {
         responseWorkflowId: resp?.workflowId,
         resultCount: resp?.results?.length || 0,
+        bundleSize: resp?.bundle?.members.length || 0,
       },
     );
-    return resp?.results || [];
+    return { results: resp?.results || [], bundle: resp?.bundle, rankingEventId: resp?.rankingEventId };
   }
 
   // TF-IDF fallback
   const msg: MatchRequest = {
     type: "MATCH_REQUEST",
-    context: target.context,
+    context,
+    contextFields,
     accept: target.accept,
     pageUrl: window.location.href,
     workflowId,
@@ -671,8 +2417,9 @@ async function fetchRecommendations(
   logWorkflowStep(workflowId, "service.background.MATCH_REQUEST.done", {
     responseWorkflowId: resp?.workflowId,
     resultCount: resp?.results?.length || 0,
+    bundleSize: resp?.bundle?.members.length || 0,
   });
-  return resp?.results || [];
+  return { results: resp?.results || [], bundle: resp?.bundle, rankingEventId: resp?.rankingEventId };
 }
 
 /** Crop a base64 PNG screenshot to a specific region */
@@ -732,6 +2479,7 @@ function showPreview(
   file: File,
   result: MatchResultItem,
   workflowId: string,
+  keyboard = false,
 ) {
   // Remove any existing panel
   document.querySelectorAll(`.${PANEL_CLASS}`).forEach((el) => el.remove());
@@ -740,6 +2488,8 @@ function showPreview(
 
   const panel = document.createElement("div");
   panel.className = PANEL_CLASS + " xupload-preview";
+  panel.setAttribute("role", "dialog");
+  panel.setAttribute("aria-label", `Preview of ${result.name}`);
 
   // Header
   const header = document.createElement("div");
@@ -802,7 +2552,7 @@ function showPreview(
     URL.revokeObjectURL(blobUrl);
     panel.remove();
     // Re-show results as a standalone panel (click-outside-to-close)
-    showStandaloneResults(target, workflowId);
+    showStandaloneResults(target, workflowId, e.detail === 0);
   });
 
   const useBtn = document.createElement("button");
@@ -820,7 +2570,7 @@ function showPreview(
       path: result.path,
     });
 
-    const success = fillFileWithObj(target, file);
+    const success = fillFileWithObj(target, [file]);
     URL.revokeObjectURL(blobUrl);
 
     if (success) {
@@ -829,44 +2579,16 @@ function showPreview(
       });
       useBtn.textContent = "\u2713 Done";
       useBtn.classList.add("xupload-preview-done");
-      setTimeout(() => panel.remove(), 600);
+      announce(`xUpload: added ${result.name}.`);
+      setTimeout(() => {
+        panel.remove();
+        if (keyboard) restoreFocus();
+      }, 600);
 
-      // Track history (fire-and-forget)
-      try {
-        chrome.runtime.sendMessage(
-          {
-            type: "TRACK_UPLOAD",
-            entry: {
-              fileId: result.id,
-              fileName: result.name,
-              fileType: result.type,
-              websiteHost: new URL(window.location.href).hostname,
-              pageUrl: window.location.href,
-              pageTitle: document.title,
-              uploadContext: target.context.slice(0, 200),
-              timestamp: Date.now(),
-            },
-          },
-          () => void chrome.runtime.lastError,
-        );
-        chrome.runtime.sendMessage(
-          {
-            type: "SAVE_USED_PATH",
-            host: new URL(window.location.href).hostname,
-            filePath: result.path,
-          },
-          () => void chrome.runtime.lastError,
-        );
-        logWorkflowStep(workflowId, "recommend.memory.saved", {
-          host: new URL(window.location.href).hostname,
-          filePath: result.path,
-        });
-      } catch {
-        /* non-critical */
-      }
+      trackUploads(target, [result], workflowId);
 
       // Invalidate cache so next hover picks up history changes
-      resultCache.delete(target.zone);
+      resultCache.delete(target.id);
     } else {
       logWorkflowStep(workflowId, "recommend.fill.failed");
       useBtn.textContent = "Error";
@@ -878,27 +2600,263 @@ function showPreview(
   actions.appendChild(useBtn);
   panel.appendChild(actions);
 
-  // Click-outside to close
+  // Click-outside (or Escape) to close
+  const close = () => {
+    URL.revokeObjectURL(blobUrl);
+    panel.remove();
+    document.removeEventListener("click", closeHandler);
+  };
   const closeHandler = (ev: MouseEvent) => {
-    if (!panel.contains(ev.target as Node)) {
-      URL.revokeObjectURL(blobUrl);
-      panel.remove();
-      document.removeEventListener("click", closeHandler);
-    }
+    if (!panel.contains(ev.target as Node)) close();
   };
   setTimeout(() => document.addEventListener("click", closeHandler), 0);
+  bindPanelKeys(panel, close);
 
   // Position
   positionPanel(panel, target.zone);
   document.body.appendChild(panel);
+  if (keyboard) {
+    useBtn.focus();
+    announce(`Previewing ${result.name}. Press Enter to use this file.`);
+  }
+}
+
+/**
+ * Combined preview for a multi-file selection: one row per file (thumbnail
+ * for images), then a single fill that puts every file into the input.
+ */
+function showMultiPreview(
+  target: UploadTarget,
+  picks: { file: File; result: MatchResultItem }[],
+  workflowId: string,
+  keyboard = false,
+) {
+  document.querySelectorAll(`.${PANEL_CLASS}`).forEach((el) => el.remove());
+  activePanel = null;
+  activeTarget = null;
+
+  const panel = document.createElement("div");
+  panel.className = PANEL_CLASS + " xupload-preview";
+  panel.setAttribute("role", "dialog");
+  panel.setAttribute("aria-label", `Preview of ${picks.length} files`);
+
+  const header = document.createElement("div");
+  header.className = "xupload-header";
+  header.textContent = `\u26A1 ${picks.length} file${picks.length > 1 ? "s" : ""} selected`;
+  panel.appendChild(header);
+
+  const previewArea = document.createElement("div");
+  previewArea.className = "xupload-preview-content";
+  panel.appendChild(previewArea);
+
+  const blobUrls: string[] = [];
+  const list = document.createElement("ul");
+  list.className = "xupload-multi-list";
+  for (const { file, result } of picks) {
+    const li = document.createElement("li");
+    li.className = "xupload-multi-row";
+
+    if (IMAGE_EXTS.includes(getFileExt(file.name))) {
+      const blobUrl = URL.createObjectURL(file);
+      blobUrls.push(blobUrl);
+      const img = document.createElement("img");
+      img.src = blobUrl;
+      img.className = "xupload-multi-thumb";
+      img.alt = file.name;
+      li.appendChild(img);
+    } else {
+      const icon = document.createElement("span");
+      icon.className = "xupload-icon";
+      icon.textContent = getFileIcon(result.type, result.name);
+      li.appendChild(icon);
+    }
+
+    const info = document.createElement("div");
+    info.className = "xupload-info";
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "xupload-name";
+    nameSpan.textContent = result.name;
+    const pathSpan = document.createElement("span");
+    pathSpan.className = "xupload-path";
+    pathSpan.textContent = `${result.path} \u00B7 ${(file.size / 1024).toFixed(1)} KB`;
+    info.appendChild(nameSpan);
+    info.appendChild(pathSpan);
+    li.appendChild(info);
+
+    list.appendChild(li);
+  }
+  previewArea.appendChild(list);
+
+  const releaseBlobs = () => blobUrls.forEach((url) => URL.revokeObjectURL(url));
+
+  const actions = document.createElement("div");
+  actions.className = "xupload-preview-actions";
+
+  const backBtn = document.createElement("button");
+  backBtn.type = "button";
+  backBtn.className = "xupload-preview-btn xupload-preview-back";
+  backBtn.textContent = "Back";
+  backBtn.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    releaseBlobs();
+    panel.remove();
+    showStandaloneResults(target, workflowId);
+  });
+
+  const useBtn = document.createElement("button");
+  useBtn.type = "button";
+  useBtn.className = "xupload-preview-btn xupload-preview-use";
+  useBtn.textContent = `Use ${picks.length} file${picks.length > 1 ? "s" : ""}`;
+  useBtn.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    useBtn.disabled = true;
+    useBtn.textContent = "Filling\u2026";
+    logWorkflowStep(workflowId, "recommend.fill.start", {
+      fileIds: picks.map((p) => p.result.id),
+      multiple: true,
+    });
+
+    const success = fillFileWithObj(target, picks.map((p) => p.file));
+    releaseBlobs();
+
+    if (success) {
+      logWorkflowStep(workflowId, "recommend.fill.done", {
+        method: "setFileInput_or_drop",
+        fileCount: picks.length,
+      });
+      useBtn.textContent = "\u2713 Done";
+      useBtn.classList.add("xupload-preview-done");
+      setTimeout(() => panel.remove(), 600);
+
+      trackUploads(target, picks.map((p) => p.result), workflowId);
+      resultCache.delete(target.id);
+    } else {
+      logWorkflowStep(workflowId, "recommend.fill.failed");
+      useBtn.textContent = "Error";
+      useBtn.disabled = false;
+    }
+  });
+
+  actions.appendChild(backBtn);
+  actions.appendChild(useBtn);
+  panel.appendChild(actions);
+
+  // Click-outside (or Escape) to close
+  const close = () => {
+    releaseBlobs();
+    panel.remove();
+    document.removeEventListener("click", closeHandler);
+  };
+  const closeHandler = (ev: MouseEvent) => {
+    if (!panel.contains(ev.target as Node)) close();
+  };
+  setTimeout(() => document.addEventListener("click", closeHandler), 0);
+  bindPanelKeys(panel, close);
+
+  positionPanel(panel, target.zone);
+  document.body.appendChild(panel);
+  if (keyboard) {
+    useBtn.focus();
+    announce(`Previewing ${picks.length} files. Press Enter to use them.`);
+  }
+}
+
+/**
+ * Learn from files chosen through the site's own picker ("Default upload" or
+ * the page's button). Only trusted change events count — the synthetic ones
+ * setFileInput dispatches are already tracked by trackUploads. The background
+ * matches the files to indexed records and records them as native history.
+ */
+function watchNativePicks(input: HTMLInputElement, targetId: string) {
+  const alreadyWatched = nativePickInputs.has(input);
+  nativePickInputs.set(input, targetId);
+  if (alreadyWatched) return;
+
+  input.addEventListener("change", (e) => {
+    if (!e.isTrusted || !extensionEnabled) return;
+    const target = zoneRegistry.get(nativePickInputs.get(input) || "");
+    const files = Array.from(input.files || []);
+    if (!target || files.length === 0) return;
+
+    const workflowId = createWorkflowId("native");
+    logWorkflowStep(workflowId, "native_upload.picked", {
+      targetId: target.id,
+      fileCount: files.length,
+    });
+    const req: TrackNativeUploadRequest = {
+      type: "TRACK_NATIVE_UPLOAD",
+      files: files.map((f) => ({ name: f.name, size: f.size, lastModified: f.lastModified })),
+      pageUrl: window.location.href,
+      pageTitle: document.title,
+      uploadContext: target.context.slice(0, 200),
+      workflowId,
+    };
+    chrome.runtime.sendMessage(req, (resp?: TrackNativeUploadResponse) => {
+      if (chrome.runtime.lastError) return;
+      // New history for this field — next hover should re-rank
+      if (resp?.matchedIds.length) resultCache.delete(target.id);
+    });
+  });
+}
+
+/**
+ * Record each filled file in upload history (one TRACK_UPLOAD per file) and
+ * remember its path for this host. Fire-and-forget.
+ */
+function trackUploads(
+  target: UploadTarget,
+  results: MatchResultItem[],
+  workflowId: string,
+) {
+  try {
+    const host = new URL(window.location.href).hostname;
+    const timestamp = Date.now();
+    const rankingEventId = resultCache.get(target.id)?.rankingEventId;
+    for (const result of results) {
+      chrome.runtime.sendMessage(
+        {
+          type: "TRACK_UPLOAD",
+          rankingEventId,
+          entry: {
+            fileId: result.id,
+            fileName: result.name,
+            fileType: result.type,
+            websiteHost: host,
+            pageUrl: window.location.href,
+            pageTitle: document.title,
+            uploadContext: target.context.slice(0, 200),
+            timestamp,
+            source: "xupload",
+          },
+        },
+        () => void chrome.runtime.lastError,
+      );
+      chrome.runtime.sendMessage(
+        {
+          type: "SAVE_USED_PATH",
+          host,
+          filePath: result.path,
+        },
+        () => void chrome.runtime.lastError,
+      );
+    }
+    logWorkflowStep(workflowId, "recommend.memory.saved", {
+      host,
+      filePaths: results.map((r) => r.path),
+    });
+  } catch {
+    /* non-critical */
+  }
 }
 
 /**
  * Re-show the cached recommendation list as a standalone (click-outside-to-close)
  * panel. Used when the user clicks "Back" in the preview.
  */
-function showStandaloneResults(target: UploadTarget, workflowId: string) {
-  const cached = resultCache.get(target.zone);
+function showStandaloneResults(target: UploadTarget, workflowId: string, keyboard = false) {
+  const cached = resultCache.get(target.id);
   if (!cached) {
     // No cache — just let the user hover again
     return;
@@ -906,13 +2864,16 @@ function showStandaloneResults(target: UploadTarget, workflowId: string) {
 
   const panel = document.createElement("div");
   panel.className = PANEL_CLASS;
+  panel.setAttribute("role", "dialog");
+  panel.setAttribute("aria-label", "xUpload file recommendations");
 
   const header = document.createElement("div");
   header.className = "xupload-header";
-  header.textContent = `\u26A1 ${cached.length} file${cached.length > 1 ? "s" : ""} recommended`;
+  header.textContent = `\u26A1 ${cached.results.length} file${cached.results.length > 1 ? "s" : ""} recommended`;
   panel.appendChild(header);
 
   const footer = createFooter(target);
+  panel.appendChild(createSearchBox(panel, footer, target, workflowId));
   panel.appendChild(footer);
 
   populateResults(panel, footer, cached, target, workflowId);
@@ -920,14 +2881,18 @@ function showStandaloneResults(target: UploadTarget, workflowId: string) {
   positionPanel(panel, target.zone);
   document.body.appendChild(panel);
 
-  // Click-outside to close
+  // Click-outside (or Escape) to close
+  const close = () => {
+    panel.remove();
+    document.removeEventListener("click", closeHandler);
+  };
   const closeHandler = (ev: MouseEvent) => {
-    if (!panel.contains(ev.target as Node)) {
-      panel.remove();
-      document.removeEventListener("click", closeHandler);
-    }
+    if (!panel.contains(ev.target as Node)) close();
   };
   setTimeout(() => document.addEventListener("click", closeHandler), 0);
+  bindPanelKeys(panel, close);
+
+  if (keyboard) panel.querySelector<HTMLElement>('[role="listbox"]')?.focus();
 }
 
 /* ================================================================== */
@@ -987,8 +2952,9 @@ async function getFile(
   // from the click on the recommended file, so showDirectoryPicker() is allowed)
   logWorkflowStep(workflowId, "service.content.reauthorize.start");
   try {
-    dirHandle = await (window as any).showDirectoryPicker({ mode: "read" });
+    const dirHandle = await (window as any).showDirectoryPicker({ mode: "read" });
     if (dirHandle) {
+      dirHandles.set(parseFileId(fileId).rootId, dirHandle);
       const retryFile = await readFileFromHandle(fileId);
       if (retryFile) {
         logWorkflowStep(workflowId, "service.content.reauthorize.done", {
@@ -1014,10 +2980,12 @@ async function getFile(
   return null;
 }
 
-async function readFileFromHandle(filePath: string): Promise<File | null> {
+async function readFileFromHandle(fileId: string): Promise<File | null> {
+  const { rootId, path } = parseFileId(fileId);
+  const dirHandle = dirHandles.get(rootId);
   if (!dirHandle) return null;
   try {
-    const parts = filePath.split("/");
+    const parts = path.split("/");
     let currentDir: FileSystemDirectoryHandle = dirHandle;
     for (let i = 0; i < parts.length - 1; i++) {
       currentDir = await currentDir.getDirectoryHandle(parts[i]);
@@ -1030,41 +2998,55 @@ async function readFileFromHandle(filePath: string): Promise<File | null> {
   }
 }
 
-function fillFileWithObj(target: UploadTarget, file: File): boolean {
+function fillFileWithObj(target: UploadTarget, files: File[]): boolean {
   try {
     // Re-query the zone for the CURRENT file input — frameworks (React, Vue)
     // often replace DOM elements after the first upload, so the stored
-    // target.fileInput may point to a detached node.
+    // target.fileInput may point to a detached node. Drop-only zones may
+    // also have created their input lazily since detection.
     const freshInput =
       target.zone.querySelector<HTMLInputElement>('input[type="file"]') ||
       target.fileInput;
 
+    if (!freshInput) {
+      // No input at all: go straight to the synthetic drop path
+      return simulateDrop(target.zone, files);
+    }
+
     // Update the stored reference so subsequent fills also work
     target.fileInput = freshInput;
+    target.multiple = freshInput.multiple;
 
-    setFileInput(freshInput, file);
+    setFileInput(freshInput, files);
     return true;
   } catch {
     // Fallback: simulate drop on the zone
-    try {
-      const dt = new DataTransfer();
-      dt.items.add(file);
-      target.zone.dispatchEvent(
-        new DragEvent("drop", {
-          bubbles: true,
-          cancelable: true,
-          dataTransfer: dt,
-        }),
-      );
-      return true;
-    } catch (err) {
-      console.error("[xUpload] Fill error:", err);
-      return false;
-    }
+    return simulateDrop(target.zone, files);
+  }
+}
+
+/**
+ * Fill a zone by replaying a drag-and-drop: dragenter → dragover → drop with
+ * one shared DataTransfer. Some libraries (react-dropzone, Uppy) only accept a
+ * drop that was preceded by dragenter/dragover.
+ */
+function simulateDrop(zone: HTMLElement, files: File[]): boolean {
+  try {
+    const win = realmOf(zone);
+    const dataTransfer = new win.DataTransfer();
+    for (const file of files) dataTransfer.items.add(file);
+    const init = { bubbles: true, cancelable: true, dataTransfer };
+    zone.dispatchEvent(new win.DragEvent("dragenter", init));
+    zone.dispatchEvent(new win.DragEvent("dragover", init));
+    zone.dispatchEvent(new win.DragEvent("drop", init));
+    return true;
+  } catch (err) {
+    console.error("[xUpload] Fill error:", err);
+    return false;
   }
 }
 
-function setFileInput(input: HTMLInputElement, file: File) {
+function setFileInput(input: HTMLInputElement, files: File[]) {
   // 1. Clear the input first — ensures the "change" event fires even if the
   //    same file is selected again, and resets any framework internal state.
   try {
@@ -1073,15 +3055,20 @@ function setFileInput(input: HTMLInputElement, file: File) {
     /* some browsers restrict clearing file inputs */
   }
 
-  // 2. Set files via DataTransfer
-  const dt = new DataTransfer();
-  dt.items.add(file);
+  // 2. Set files via DataTransfer. A single-file input only ever gets the
+  //    first file, matching what the native picker would allow. Inputs in
+  //    same-origin frames get objects from their own realm.
+  const win = realmOf(input);
+  const dt = new win.DataTransfer();
+  for (const file of input.multiple ? files : files.slice(0, 1)) {
+    dt.items.add(file);
+  }
 
   // Use the native property setter directly — React and other frameworks
   // override the setter, so we call HTMLInputElement.prototype's version
   // to bypass the framework wrapper and ensure the DOM actually updates.
   const nativeSetter = Object.getOwnPropertyDescriptor(
-    HTMLInputElement.prototype,
+    win.HTMLInputElement.prototype,
     "files",
   )?.set;
   if (nativeSetter) {
@@ -1091,116 +3078,68 @@ function setFileInput(input: HTMLInputElement, file: File) {
   }
 
   // 3. Dispatch events that frameworks listen to
-  input.dispatchEvent(new Event("input", { bubbles: true }));
-  input.dispatchEvent(new Event("change", { bubbles: true }));
+  input.dispatchEvent(new win.Event("input", { bubbles: true }));
+  input.dispatchEvent(new win.Event("change", { bubbles: true }));
 }
 
 /* ================================================================== */
 /*  FOLDER SCANNING                                                    */
 /* ================================================================== */
 
-async function collectFiles(
-  handle: FileSystemDirectoryHandle,
-  basePath: string,
-): Promise<{ fileHandle: FileSystemFileHandle; path: string }[]> {
-  const result: { fileHandle: FileSystemFileHandle; path: string }[] = [];
-  for await (const entry of (handle as any).values()) {
-    const entryPath = basePath ? `${basePath}/${entry.name}` : entry.name;
-    if (entry.kind === "file") {
-      result.push({ fileHandle: entry, path: entryPath });
-    } else if (entry.kind === "directory" && !entry.name.startsWith(".")) {
-      const sub = await collectFiles(entry, entryPath);
-      result.push(...sub);
-    }
-  }
-  return result;
-}
-
-function guessType(name: string): string {
-  const ext = name.split(".").pop()?.toLowerCase() || "";
-  const map: Record<string, string> = {
-    pdf: "application/pdf",
-    jpg: "image/jpeg",
-    jpeg: "image/jpeg",
-    png: "image/png",
-    gif: "image/gif",
-    webp: "image/webp",
-    doc: "application/msword",
-    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    xls: "application/vnd.ms-excel",
-    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    txt: "text/plain",
-    csv: "text/csv",
-  };
-  return map[ext] || "application/octet-stream";
-}
-
-async function extractFileText(
-  file: File,
-  filePath?: string,
-): Promise<string> {
-  const name = file.name.replace(/[._-]/g, " ");
-  const ext = file.name.split(".").pop()?.toLowerCase() || "";
-  const pathKeywords = filePath ? filePath.replace(/[/\\._-]/g, " ") : name;
-
-  if (TEXT_EXTS.includes(ext)) {
-    try {
-      const text = await file.text();
-      return `${pathKeywords} ${text.slice(0, 2000)}`;
-    } catch {
-      return pathKeywords;
-    }
-  }
-
-  if (ext === "pdf") {
-    try {
-      const buffer = await file.arrayBuffer();
-      const bytes = new Uint8Array(buffer);
-      let raw = "";
-      const len = Math.min(bytes.length, 500_000);
-      for (let i = 0; i < len; i++) raw += String.fromCharCode(bytes[i]);
-
-      const parts: string[] = [];
-      const btEt = /BT\s([\s\S]*?)ET/g;
-      let m;
-      while ((m = btEt.exec(raw)) !== null) {
-        const tj = /\(([^)]*)\)/g;
-        let t;
-        while ((t = tj.exec(m[1])) !== null) parts.push(t[1]);
-      }
-      const pdfText = parts
-        .join(" ")
-        .replace(/\\n/g, " ")
-        .replace(/\s+/g, " ")
-        .trim();
-      if (pdfText.length > 10) {
-        return `${pathKeywords} ${pdfText.slice(0, 2000)}`;
-      }
-      return `${pathKeywords} pdf document`;
-    } catch {
-      return `${pathKeywords} pdf document`;
-    }
-  }
-
-  if (
-    ["jpg", "jpeg", "png", "gif", "webp", "bmp", "svg", "tiff", "heic"].includes(ext)
-  ) {
-    return `${pathKeywords} image photo picture`;
-  }
-  if (["doc", "docx"].includes(ext)) return `${pathKeywords} document word`;
-  if (["xls", "xlsx"].includes(ext))
-    return `${pathKeywords} spreadsheet excel`;
-  if (["ppt", "pptx"].includes(ext))
-    return `${pathKeywords} presentation slides`;
-
-  return pathKeywords;
+/**
+ * When roots share the picked folder's name, ask in the panel whether the
+ * folder is one of them — two "Documents" folders aren't the same folder, and
+ * committing one into the other's root would drop all its files. Resolves to
+ * the chosen root's id, or null to index the folder as a new root.
+ */
+function chooseScanRoot(statusEl: HTMLElement, name: string, roots: RootChoice[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    statusEl.textContent = `You've indexed a folder named "${name}" before. Is this the same folder?`;
+    const choose = (rootId: string | null) => {
+      for (const btn of buttons) btn.remove();
+      resolve(rootId);
+    };
+    const buttons = roots.map((root) => {
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.className = "xupload-scan-btn";
+      const scanned = root.lastScanTimestamp
+        ? `scanned ${new Date(root.lastScanTimestamp).toLocaleDateString()}`
+        : "never scanned";
+      btn.textContent = `Update "${root.name}" (${root.fileCount} files, ${scanned})`;
+      btn.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        choose(root.id);
+      });
+      return btn;
+    });
+    const newBtn = document.createElement("button");
+    newBtn.type = "button";
+    newBtn.className = "xupload-scan-btn";
+    newBtn.textContent = "No, index it as a new folder";
+    newBtn.addEventListener("click", (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      choose(null);
+    });
+    buttons.push(newBtn);
+    statusEl.after(...buttons);
+  });
 }
 
+/**
+ * Inline "scan folder": walk the folder here (the page holds the handle) with
+ * the shared engine's collect phase, then let the background commit it. If
+ * the user says the folder was indexed before, unchanged files of that root
+ * aren't re-read.
+ */
 async function scanFolder(
   statusEl?: HTMLElement,
   workflowId: string = createWorkflowId("scan-inline"),
 ): Promise<boolean> {
   logWorkflowStep(workflowId, "scan.inline.start");
+  let dirHandle: FileSystemDirectoryHandle | null = null;
   try {
     logWorkflowStep(workflowId, "service.filesystem.showDirectoryPicker.start");
     dirHandle = await (window as any).showDirectoryPicker({ mode: "read" });
@@ -1212,63 +3151,67 @@ async function scanFolder(
   }
   if (!dirHandle) return false;
 
+  // Without a panel to ask in, the folder is indexed as a new root
+  let rootId: string | null = null;
+  if (statusEl) {
+    const findReq: FindRootsRequest = { type: "FIND_ROOTS", name: dirHandle.name };
+    const found = await chrome.runtime.sendMessage(findReq) as FindRootsResponse | undefined;
+    if (found?.roots.length) rootId = await chooseScanRoot(statusEl, dirHandle.name, found.roots);
+    logWorkflowStep(workflowId, "scan.inline.root.chosen", { candidates: found?.roots.length ?? 0, rootId });
+  }
+
   if (statusEl) statusEl.textContent = "Scanning files\u2026";
 
-  const entries = await collectFiles(dirHandle, "");
-  logWorkflowStep(workflowId, "service.filesystem.collectFiles.done", {
-    discoveredFiles: entries.length,
-  });
-  if (statusEl)
-    statusEl.textContent = `Found ${entries.length} files. Reading\u2026`;
-
-  const files: {
-    path: string;
-    name: string;
-    type: string;
-    size: number;
-    lastModified: number;
-    text: string;
-  }[] = [];
-  let unreadable = 0;
-
-  for (let i = 0; i < entries.length; i++) {
-    const { fileHandle, path } = entries[i];
-    try {
-      const file = await fileHandle.getFile();
-      const text = await extractFileText(file, path);
-      files.push({
-        path,
-        name: file.name,
-        type: file.type || guessType(file.name),
-        size: file.size,
-        lastModified: file.lastModified,
-        text,
-      });
-    } catch {
-      unreadable++;
-    }
-    if (i % 10 === 0 && statusEl) {
-      statusEl.textContent = `Reading files\u2026 ${i + 1}/${entries.length}`;
-    }
+  let known: GetKnownFilesResponse | undefined;
+  if (rootId) {
+    const knownReq: GetKnownFilesRequest = { type: "GET_KNOWN_FILES", rootId };
+    known = await chrome.runtime.sendMessage(knownReq) as GetKnownFilesResponse | undefined;
   }
+  const collected = await collectFiles(dirHandle, {
+    rules: await getIndexRules(),
+    known: known?.files,
+    onEvent: (event) => {
+      if (!statusEl) return;
+      if (event.phase === "walk") {
+        statusEl.textContent = `Found ${event.discovered} files. Reading\u2026`;
+      } else if (event.phase === "read") {
+        statusEl.textContent = `Reading files\u2026 ${event.done}/${event.total}`;
+      }
+    },
+  });
 
   if (statusEl) statusEl.textContent = "Building index\u2026";
   logWorkflowStep(workflowId, "scan.inline.read.done", {
-    processedFiles: files.length,
-    unreadable,
+    collectedFiles: collected.files.length,
+    excluded: collected.excluded,
+    unreadable: collected.unreadable,
   });
 
-  const resp = await chrome.runtime.sendMessage({
+  const req: BuildIndexRequest = {
     type: "BUILD_INDEX",
-    files,
+    files: collected.files,
+    rootId: rootId ?? undefined,
+    rootName: dirHandle.name,
+    excluded: collected.excluded,
+    unreadable: collected.unreadable,
     workflowId,
+  };
+  const resp = await chrome.runtime.sendMessage(req) as BuildIndexResponse | undefined;
+  logWorkflowStep(workflowId, "service.background.BUILD_INDEX.done", {
+    ok: resp?.ok,
+    error: resp?.error,
   });
-  logWorkflowStep(workflowId, "service.background.BUILD_INDEX.done", resp);
+  if (!resp?.ok || !resp.result) {
+    if (statusEl) statusEl.textContent = "Couldn't index this folder.";
+    return false;
+  }
+  dirHandles.set(resp.result.rootId, dirHandle);
 
   if (statusEl)
-    statusEl.textContent = `Done! ${resp?.count || files.length} files indexed.`;
+    statusEl.textContent = `Done! ${resp.result.discovered} files indexed.`;
   logWorkflowStep(workflowId, "scan.inline.done", {
-    indexedFiles: resp?.count || files.length,
+    indexedFiles: resp.result.discovered,
+    totalIndexed: resp.result.total,
   });
   return true;
 }
@@ -1287,7 +3230,7 @@ function disableExtension() {
   if (hideTimer) { clearTimeout(hideTimer); hideTimer = null; }
 
   // Remove highlights and badges from all marked zones
-  for (const zone of allMarkedZoneEls) {
+  for (const zone of markedZoneElements()) {
     zone.classList.remove(ZONE_CLASS);
     const badge = zone.querySelector(`.${BADGE_CLASS}`);
     if (badge) badge.remove();
@@ -1299,7 +3242,7 @@ function enableExtension() {
   extensionEnabled = true;
 
   // Re-highlight existing tracked zones
-  for (const zone of allMarkedZoneEls) {
+  for (const zone of markedZoneElements()) {
     zone.classList.add(ZONE_CLASS);
     if (!zone.querySelector(`.${BADGE_CLASS}`)) {
       const badge = document.createElement("span");
@@ -1310,6 +3253,7 @@ function enableExtension() {
   }
 
   // Scan for any new zones that appeared while disabled
+  fullScanPending = true;
   scanAndMark();
 }
 
@@ -1317,11 +3261,83 @@ function enableExtension() {
 /*  INITIALIZATION                                                     */
 /* ================================================================== */
 
+/** Elements added since the last scan, collected from mutation records */
+const addedSinceScan = new Set<Element>();
+/** Set when the next scan must walk every root (first scan, a frame load, re-enabling) */
+let fullScanPending = true;
+
+/** Mutation bursts (framework renders) collapse into one scan */
+function scheduleScan(full = false) {
+  if (full) fullScanPending = true;
+  if (scanTimer) return;
+  scanTimer = setTimeout(() => {
+    scanTimer = null;
+    scanAndMark();
+  }, 100);
+}
+
+/** Attach a MutationObserver to a search root once */
+function observeRoot(root: SearchRoot) {
+  if (observedRoots.has(root)) return;
+  observedRoots.add(root);
+  const target = root instanceof ShadowRoot ? root : root.documentElement;
+  if (!target) return;
+  new MutationObserver(onMutations).observe(target, {
+    childList: true,
+    subtree: true,
+  });
+}
+
+/** Remember what was added; removals alone can't bring a new zone */
+function onMutations(records: MutationRecord[]) {
+  for (const record of records) {
+    record.addedNodes.forEach((node) => {
+      const el = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+      if (el) addedSinceScan.add(el);
+    });
+  }
+  if (addedSinceScan.size > 0) scheduleScan();
+}
+
+/** Re-scan when a frame (re)loads — its new document needs observing too */
+function watchFrameLoads(frame: HTMLIFrameElement) {
+  if (watchedFrames.has(frame)) return;
+  watchedFrames.add(frame);
+  frame.addEventListener("load", () => scheduleScan(true));
+}
+
+/**
+ * content.css only reaches the top document. Shadow roots and frame documents
+ * get a copy of the zone/badge rules (the panel itself always lives in the
+ * top document).
+ */
+function ensureRootStyles(root: SearchRoot) {
+  if (root === document || styledRoots.has(root)) return;
+  styledRoots.add(root);
+  const style = (root instanceof ShadowRoot ? document : root).createElement("style");
+  style.setAttribute("data-xupload", "");
+  style.textContent = ZONE_STYLES;
+  if (root instanceof ShadowRoot) root.appendChild(style);
+  else (root.head || root.documentElement).appendChild(style);
+}
+
+/** Incremental after a mutation: only added subtrees (minus ones inside another) are walked */
 function scanAndMark() {
-  if (!extensionEnabled) return;
-  const zones = findUploadZones();
+  if (!extensionEnabled || handledByParentFrame) return;
+  recordFlowStep();
+  let added: Element[] | null = null;
+  if (!fullScanPending) {
+    added = [...addedSinceScan].filter((el) => {
+      if (!el.isConnected) return false;
+      for (let p = el.parentElement; p; p = p.parentElement) if (addedSinceScan.has(p)) return false;
+      return true;
+    });
+  }
+  fullScanPending = false;
+  addedSinceScan.clear();
+  const zones = findUploadZones(added);
   for (const target of zones) {
-    markZone(target);
+    registerZone(target);
   }
 }
 
@@ -1333,12 +3349,73 @@ chrome.storage.local.get("xupload_enabled", (data) => {
   }
 });
 
-// Re-scan when DOM changes
-new MutationObserver(() => scanAndMark()).observe(document.body, {
-  childList: true,
-  subtree: true,
+// Re-scan when DOM changes — in the page and in every shadow root / frame
+// document we've seen (observeRoot is called for each during detection)
+if (!handledByParentFrame) observeRoot(document);
+
+// Geometry requests from (and responses to) cross-origin child frames
+installFrameMessaging();
+
+// Top frame answers page-context requests relayed for cross-origin iframes
+if (isTopFrame) {
+  chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+    if (msg?.type !== "GET_PAGE_CONTEXT") return;
+    sendResponse(getPageContext());
+  });
+}
+
+// Page-level "Fill all" — sent by the popup button and the keyboard shortcut
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.type !== "FILL_ALL_ZONES" || !isTopFrame) return;
+  if (!extensionEnabled) {
+    sendResponse({ ok: false, zoneCount: 0, error: "xUpload is disabled." });
+    return;
+  }
+  const workflowId = msg.workflowId || createWorkflowId("fill-all");
+  fillAllZones(workflowId)
+    .then(sendResponse)
+    .catch((err) => {
+      logWorkflowError(workflowId, "fill_all.failed", err);
+      sendResponse({ ok: false, zoneCount: 0, error: err?.message || String(err) });
+    });
+  return true;
 });
 
+// Cross-origin frames: report zones to the top frame's Fill-all sheet, and fill the rows it approves
+if (!isTopFrame && !handledByParentFrame) {
+  chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+    if (msg?.type === "GET_FRAME_ZONES") {
+      const workflowId = msg.workflowId || createWorkflowId("fill-all-frame");
+      if (!extensionEnabled) {
+        sendResponse({ zones: [] });
+        return;
+      }
+      recommendForZones(workflowId)
+        .then((perZone): FrameZonesResponse => ({
+          zones: perZone.map(({ target, results }) => ({ zoneId: target.id, label: zoneLabel(target), results })),
+        }))
+        .then(sendResponse);
+      return true;
+    }
+    if (msg?.type === "FILL_ZONE") {
+      const workflowId = msg.workflowId || createWorkflowId("fill-all-frame");
+      const target = zoneRegistry.get(msg.zoneId as string);
+      if (!target?.zone.isConnected) {
+        sendResponse({ ok: false });
+        return;
+      }
+      fillZoneWith(target, msg.result as MatchResultItem, workflowId)
+        .catch((err) => {
+          logWorkflowError(workflowId, "fill_all.frame_fill.failed", err);
+          return false;
+        })
+        .then((ok): FillFrameZoneResponse => ({ ok }))
+        .then(sendResponse);
+      return true;
+    }
+  });
+}
+
 // React to toggle changes from the popup (via chrome.storage)
 chrome.storage.onChanged.addListener((changes, area) => {
   if (area !== "local" || !changes.xupload_enabled) return;
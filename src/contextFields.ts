@@ -0,0 +1,92 @@
+/**
+ * Structured upload-field context.
+ * The content script extracts each kind of context (field label, fieldset
+ * legend, section heading, helper text, ...) as its own field; ranking turns
+ * them into weighted query tokens so strong, field-specific words outweigh
+ * generic page text.
+ */
+
+import { tokenize, tokenizeFiltered } from "./embeddings";
+import type { ContextFieldName, ContextFields } from "./types";
+
+/**
+ * Relative trust in each field. 1.0 is the baseline (helper text, accept
+ * semantics); the field's own label is the strongest signal, labels of
+ * neighbouring fields the weakest.
+ */
+export const CONTEXT_FIELD_WEIGHTS: Record<ContextFieldName, number> = {
+  label: 3.0,
+  legend: 2.0,
+  sectionHeading: 1.6,
+  formTitle: 1.2,
+  acceptHint: 1.0,
+  helperText: 1.0,
+  compose: 1.0,
+  zoneText: 0.6,
+  page: 0.5,
+  flowHistory: 0.4,
+  siblingLabels: 0.3,
+};
+
+/** Order used when joining fields into the flat context string */
+const FIELD_ORDER: ContextFieldName[] = [
+  "label",
+  "legend",
+  "sectionHeading",
+  "formTitle",
+  "helperText",
+  "acceptHint",
+  "zoneText",
+  "compose",
+  "siblingLabels",
+  "page",
+  "flowHistory",
+];
+
+export function flattenContextFields(fields: ContextFields): string {
+  return FIELD_ORDER.map((name) => fields[name] || "")
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+}
+
+/**
+ * TF-IDF query tokens: each field's tokens repeated in proportion to its
+ * weight (label ×6, zone text ×1, sibling labels ×1), so term frequency
+ * reflects where a word appeared.
+ */
+export function weightedQueryTokens(fields: ContextFields): string[] {
+  const tokens: string[] = [];
+  for (const name of FIELD_ORDER) {
+    const text = fields[name];
+    if (!text) continue;
+    const repeat = Math.max(1, Math.round(CONTEXT_FIELD_WEIGHTS[name] * 2));
+    const fieldTokens = tokenize(text);
+    for (let i = 0; i < repeat; i++) tokens.push(...fieldTokens);
+  }
+  return tokens;
+}
+
+/**
+ * Filtered context tokens mapped to the strongest weight of any field they
+ * appear in. Without structured fields every token of `fallback` weighs 1.0.
+ */
+export function contextTokenWeights(
+  fields: ContextFields | undefined,
+  fallback: string,
+): Map<string, number> {
+  const weights = new Map<string, number>();
+  if (!fields || Object.keys(fields).length === 0) {
+    for (const t of tokenizeFiltered(fallback)) weights.set(t, 1.0);
+    return weights;
+  }
+  for (const name of FIELD_ORDER) {
+    const text = fields[name];
+    if (!text) continue;
+    const w = CONTEXT_FIELD_WEIGHTS[name];
+    for (const t of tokenizeFiltered(text)) {
+      weights.set(t, Math.max(weights.get(t) || 0, w));
+    }
+  }
+  return weights;
+}
@@ -0,0 +1,119 @@
+/**
+ * Multi-step flow context.
+ * Application wizards spread what they're asking for across steps: step 1
+ * says "Graduate application – Computer Science", step 4 only "Upload
+ * document". We keep a rolling buffer of the headings/titles seen on earlier
+ * steps of the same flow and add it to the query as a low-weight field.
+ *
+ * The buffer lives in sessionStorage, so it is naturally per tab and per
+ * origin. A flow is identified by URL prefix: consecutive pages sharing at
+ * least one leading path segment (or the same path, for ?step=N wizards)
+ * belong to the same flow. A page with an unrelated path starts a new flow;
+ * a confirmation page ("Thank you", "Application submitted") ends it.
+ */
+
+const STORAGE_KEY = "xupload_flow";
+/** Most recent distinct texts kept */
+const MAX_TEXTS = 12;
+const MAX_TEXT_LENGTH = 150;
+/** A flow idle for longer than this is considered abandoned */
+const FLOW_TTL_MS = 60 * 60 * 1000;
+
+const FLOW_END_RE =
+  /thank you for (?:your )?(?:application|applying|submitting)|application (?:has been )?(?:submitted|received)|submission (?:complete|received|successful)|successfully submitted|confirmation number/i;
+
+interface FlowBuffer {
+  /** Leading path segments shared by every page of the flow */
+  prefix: string[];
+  /** Path of the most recent page (same-path wizards keep the flow alive) */
+  lastPath: string;
+  texts: string[];
+  updatedAt: number;
+}
+
+function pathSegments(pathname: string): string[] {
+  return pathname.split("/").filter(Boolean);
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < Math.min(a.length, b.length) && a[i] === b[i]; i++) out.push(a[i]);
+  return out;
+}
+
+function loadBuffer(): FlowBuffer | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as FlowBuffer) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveBuffer(buffer: FlowBuffer | null) {
+  try {
+    if (buffer) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(buffer));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled or full — flow context is best-effort
+  }
+}
+
+function clean(text: string | null | undefined): string {
+  return (text || "").replace(/\s+/g, " ").trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+/** Title and headings that describe the current step */
+function currentStepTexts(): string[] {
+  const texts = [document.title];
+  document.querySelectorAll("h1, h2, legend").forEach((el, i) => {
+    if (i < 6) texts.push(el.textContent || "");
+  });
+  return [...new Set(texts.map(clean).filter((t) => t.length > 2))];
+}
+
+/**
+ * Record the current page as a step of the ongoing flow (or start a new
+ * flow). Called on every scan, so SPA wizards that swap steps without a
+ * navigation are captured too.
+ */
+export function recordFlowStep() {
+  const path = window.location.pathname;
+  const segments = pathSegments(path);
+  const stepTexts = currentStepTexts();
+
+  if (FLOW_END_RE.test(stepTexts.join(" "))) {
+    saveBuffer(null);
+    return;
+  }
+
+  let buffer = loadBuffer();
+  if (buffer) {
+    const expired = Date.now() - buffer.updatedAt > FLOW_TTL_MS;
+    const prefix = commonPrefix(buffer.prefix, segments);
+    const sameFlow = !expired && (path === buffer.lastPath || prefix.length > 0);
+    if (sameFlow) {
+      buffer.prefix = prefix;
+    } else {
+      buffer = null;
+    }
+  }
+  if (!buffer) buffer = { prefix: segments, lastPath: path, texts: [], updatedAt: 0 };
+
+  for (const text of stepTexts) {
+    if (buffer.texts.includes(text)) continue;
+    buffer.texts.push(text);
+  }
+  buffer.texts = buffer.texts.slice(-MAX_TEXTS);
+  buffer.lastPath = path;
+  buffer.updatedAt = Date.now();
+  saveBuffer(buffer);
+}
+
+/** Texts from earlier steps of this flow that aren't on the current page */
+export function getFlowContext(): string {
+  const buffer = loadBuffer();
+  if (!buffer || Date.now() - buffer.updatedAt > FLOW_TTL_MS) return "";
+  const current = new Set(currentStepTexts());
+  return buffer.texts.filter((t) => !current.has(t)).join(" ");
+}
@@ -0,0 +1,203 @@
+/**
+ * Cross-frame coordination for the content script.
+ *
+ * The content script runs in every frame (all_frames). Frames that are
+ * same-origin with their parent stay idle — the parent's shadow-root/iframe
+ * traversal already handles them. Cross-origin frames run detection
+ * themselves and need two things from the frames above them:
+ *
+ *   - Page context (job title, company) from the top frame, relayed by the
+ *     background via GET_FRAME_CONTEXT → GET_PAGE_CONTEXT.
+ *   - Geometry: where this frame's viewport sits inside the top viewport, so
+ *     the panel stays on-screen and VLM screenshots are cropped correctly.
+ *     Only the parent can map a child window to its <iframe> element
+ *     (event.source === iframe.contentWindow), so geometry requests walk up
+ *     the frame chain with postMessage, one hop at a time.
+ */
+
+import type { GetFrameContextResponse, PageContext } from "./types";
+
+const MESSAGE_SOURCE = "xupload-frame";
+const GEOMETRY_TIMEOUT_MS = 500;
+
+/** This frame's viewport inside the top-level viewport */
+export interface FrameGeometry {
+  /** Offset of this frame's (0, 0) in top-viewport coordinates */
+  top: number;
+  left: number;
+  /** Size of the top-level viewport */
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+interface GeometryRequestMessage {
+  source: typeof MESSAGE_SOURCE;
+  kind: "geometry-request";
+  requestId: number;
+}
+
+interface GeometryResponseMessage {
+  source: typeof MESSAGE_SOURCE;
+  kind: "geometry-response";
+  requestId: number;
+  geometry: FrameGeometry | null;
+}
+
+export const isTopFrame = window === window.top;
+
+/**
+ * True when this frame is same-origin with its parent. Such frames are
+ * scanned by the parent's content script, so this one must not mark zones
+ * (otherwise every field would get two badges).
+ */
+export function isHandledByParentFrame(): boolean {
+  if (isTopFrame) return false;
+  try {
+    // frameElement is null when the parent is cross-origin
+    return window.frameElement !== null;
+  } catch {
+    return false;
+  }
+}
+
+/* ---- Page context (top frame) ---- */
+
+function metaContent(selector: string): string {
+  return document.querySelector<HTMLMetaElement>(selector)?.content?.trim() || "";
+}
+
+/** Collect the top page's title, heading and site name */
+export function getPageContext(): PageContext {
+  const heading = document.querySelector("h1")?.textContent?.trim() || "";
+  return {
+    url: window.location.href,
+    title: metaContent('meta[property="og:title"]') || document.title,
+    heading: heading.slice(0, 200),
+    siteName: metaContent('meta[property="og:site_name"]') || window.location.hostname,
+    description: metaContent('meta[name="description"]').slice(0, 300),
+  };
+}
+
+/**
+ * Ask the background for the top frame's page context. Returns an empty
+ * string in the top frame or when the top frame can't be reached.
+ */
+export async function fetchParentPageContext(workflowId?: string): Promise<string> {
+  if (isTopFrame) return "";
+  try {
+    const resp: GetFrameContextResponse = await chrome.runtime.sendMessage({
+      type: "GET_FRAME_CONTEXT",
+      workflowId,
+    });
+    const ctx = resp?.context;
+    if (!ctx) return "";
+    return [ctx.title, ctx.heading, ctx.siteName, ctx.description]
+      .filter((part, i, all) => part && all.indexOf(part) === i)
+      .join(" ");
+  } catch {
+    return "";
+  }
+}
+
+/* ---- Geometry (postMessage chain) ---- */
+
+let nextRequestId = 1;
+const pendingRequests = new Map<number, (geometry: FrameGeometry | null) => void>();
+
+/** Every <iframe>/<frame> in this document, including inside open shadow roots */
+function collectFrameElements(): HTMLIFrameElement[] {
+  const frames: HTMLIFrameElement[] = [];
+  const visit = (root: Document | ShadowRoot) => {
+    root.querySelectorAll<HTMLElement>("*").forEach((el) => {
+      if (el.tagName === "IFRAME" || el.tagName === "FRAME") frames.push(el as HTMLIFrameElement);
+      if (el.shadowRoot) visit(el.shadowRoot);
+    });
+  };
+  visit(document);
+  return frames;
+}
+
+/**
+ * Where a child frame's content box sits in this frame's viewport, plus this
+ * frame's own placement in the top viewport.
+ */
+async function geometryForChild(childWindow: Window): Promise<FrameGeometry | null> {
+  const frameEl = collectFrameElements().find((f) => f.contentWindow === childWindow);
+  if (!frameEl) return null;
+
+  const rect = frameEl.getBoundingClientRect();
+  const style = getComputedStyle(frameEl);
+  const top = rect.top + frameEl.clientTop + (parseFloat(style.paddingTop) || 0);
+  const left = rect.left + frameEl.clientLeft + (parseFloat(style.paddingLeft) || 0);
+
+  const own = isTopFrame
+    ? { top: 0, left: 0, viewportWidth: window.innerWidth, viewportHeight: window.innerHeight }
+    : await requestFrameGeometry();
+  if (!own) return null;
+
+  return {
+    top: own.top + top,
+    left: own.left + left,
+    viewportWidth: own.viewportWidth,
+    viewportHeight: own.viewportHeight,
+  };
+}
+
+/**
+ * Ask the parent frame where this frame sits in the top viewport. Resolves
+ * null in the top frame, on timeout, or when a frame in the chain has no
+ * content script (e.g. a sandboxed frame).
+ */
+export function requestFrameGeometry(): Promise<FrameGeometry | null> {
+  if (isTopFrame) return Promise.resolve(null);
+  const requestId = nextRequestId++;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      pendingRequests.delete(requestId);
+      resolve(null);
+    }, GEOMETRY_TIMEOUT_MS);
+    pendingRequests.set(requestId, (geometry) => {
+      clearTimeout(timer);
+      resolve(geometry);
+    });
+    const msg: GeometryRequestMessage = { source: MESSAGE_SOURCE, kind: "geometry-request", requestId };
+    window.parent.postMessage(msg, "*");
+  });
+}
+
+/**
+ * Answer geometry requests from child frames and route responses to pending
+ * requests. Installed in every frame, including idle same-origin ones — a
+ * cross-origin grandchild still needs them to answer.
+ */
+export function installFrameMessaging() {
+  window.addEventListener("message", (event) => {
+    const data = event.data as GeometryRequestMessage | GeometryResponseMessage | undefined;
+    if (!data || data.source !== MESSAGE_SOURCE) return;
+
+    if (data.kind === "geometry-response") {
+      if (event.source !== window.parent) return;
+      const resolve = pendingRequests.get(data.requestId);
+      if (!resolve) return;
+      pendingRequests.delete(data.requestId);
+      resolve(data.geometry);
+      return;
+    }
+
+    if (data.kind === "geometry-request") {
+      const child = event.source as Window | null;
+      if (!child) return;
+      geometryForChild(child)
+        .catch(() => null)
+        .then((geometry) => {
+          const reply: GeometryResponseMessage = {
+            source: MESSAGE_SOURCE,
+            kind: "geometry-response",
+            requestId: data.requestId,
+            geometry,
+          };
+          child.postMessage(reply, "*");
+        });
+    }
+  });
+}
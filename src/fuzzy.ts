@@ -0,0 +1,154 @@
+/**
+ * Fuzzy file search for the panel's search box.
+ * Matches every query term against a record's name, path and text preview:
+ * name/path allow fzf-style subsequence matches ("rsm" → "resume"), the
+ * preview only substring matches (subsequences over prose are noise).
+ */
+
+import type { FuzzyHighlights, MatchRange } from "./types";
+
+/** Relative value of a match in each field */
+const FIELD_WEIGHTS = { name: 1.0, path: 0.7, textPreview: 0.4 } as const;
+
+/** Characters of preview text shown around a match */
+const SNIPPET_RADIUS = 40;
+
+export interface FuzzyRecord {
+  name: string;
+  path: string;
+  textPreview: string;
+}
+
+export interface FuzzyHit<T> {
+  record: T;
+  /** 0–1, relative to a perfect exact-name match on every term */
+  score: number;
+  highlights: FuzzyHighlights;
+}
+
+interface TermMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+/** Merge adjacent/overlapping [start, end) ranges */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const out: MatchRange[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else out.push([r[0], r[1]]);
+  }
+  return out;
+}
+
+function isWordStart(text: string, i: number): boolean {
+  return i === 0 || /[\s/\\._\-()[\]]/.test(text[i - 1]);
+}
+
+/**
+ * Score one term against one string. Substring matches score highest
+ * (more at a word start); otherwise a subsequence match scores by how
+ * contiguous it is. Returns null when the term doesn't match.
+ */
+export function fuzzyMatch(term: string, text: string, allowSubsequence = true): TermMatch | null {
+  if (!term || !text) return null;
+  const lower = text.toLowerCase();
+
+  const idx = lower.indexOf(term);
+  if (idx >= 0) {
+    const score = isWordStart(lower, idx) ? 1.0 : 0.8;
+    return { score, ranges: [[idx, idx + term.length]] };
+  }
+  if (!allowSubsequence || term.length < 2) return null;
+
+  const ranges: MatchRange[] = [];
+  let pos = 0;
+  let gaps = 0;
+  for (const ch of term) {
+    const found = lower.indexOf(ch, pos);
+    if (found < 0) return null;
+    if (found > pos && ranges.length > 0) gaps++;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === found) last[1] = found + 1;
+    else ranges.push([found, found + 1]);
+    pos = found + 1;
+  }
+  // Subsequence spread across the whole path is barely a match
+  const span = ranges[ranges.length - 1][1] - ranges[0][0];
+  if (span > term.length * 4) return null;
+  const score = 0.6 / (1 + gaps);
+  return { score, ranges };
+}
+
+/** A window of `text` around the first range, with ranges re-based to it */
+function makeSnippet(text: string, range: MatchRange): { text: string; ranges: MatchRange[] } {
+  const start = Math.max(0, range[0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, range[1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const body = text.slice(start, end).replace(/\s/g, " ");
+  const offset = prefix.length - start;
+  return {
+    text: prefix + body + suffix,
+    ranges: [[range[0] + offset, range[1] + offset]],
+  };
+}
+
+/**
+ * Rank records against a free-text query. Every term must match somewhere;
+ * a term's score is its best field match times that field's weight.
+ */
+export function fuzzySearch<T extends FuzzyRecord>(
+  records: T[],
+  query: string,
+  limit: number,
+): FuzzyHit<T>[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const hits: FuzzyHit<T>[] = [];
+  for (const record of records) {
+    let total = 0;
+    const nameRanges: MatchRange[] = [];
+    const pathRanges: MatchRange[] = [];
+    let snippet: FuzzyHighlights["snippet"];
+    let matchedAll = true;
+
+    for (const term of terms) {
+      const name = fuzzyMatch(term, record.name);
+      const path = fuzzyMatch(term, record.path);
+      const preview = fuzzyMatch(term, record.textPreview, false);
+      const scored = [
+        name && name.score * FIELD_WEIGHTS.name,
+        path && path.score * FIELD_WEIGHTS.path,
+        preview && preview.score * FIELD_WEIGHTS.textPreview,
+      ].map((v) => v || 0);
+      const best = Math.max(...scored);
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      total += best;
+      if (name) nameRanges.push(...name.ranges);
+      if (path) pathRanges.push(...path.ranges);
+      if (preview && !name && !path && !snippet) {
+        snippet = makeSnippet(record.textPreview, preview.ranges[0]);
+      }
+    }
+    if (!matchedAll) continue;
+
+    hits.push({
+      record,
+      score: total / terms.length,
+      highlights: {
+        name: mergeRanges(nameRanges),
+        path: mergeRanges(pathRanges),
+        snippet,
+      },
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
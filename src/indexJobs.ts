@@ -0,0 +1,320 @@
+/**
+ * Indexing jobs: popup scans and scheduled rescans run here, in the
+ * background, so closing the popup doesn't stop them. Jobs run one at a
+ * time, oldest first, and are persisted in IndexedDB with a checkpoint of
+ * every file read and embedded so far — a job interrupted by a pause or a
+ * service worker restart picks up where it left off instead of re-reading
+ * the folder. Every state change is broadcast as INDEX_JOB_PROGRESS to
+ * whichever surface is open, and each finished scan leaves a ScanReport on
+ * its root.
+ *
+ * The folder itself is walked in the offscreen document (COLLECT_FILES),
+ * which can use the stored directory handle; embedding and writing the
+ * index happen here.
+ */
+
+import { activeEmbedder, getApiConfig } from "./apiEmbeddings";
+import { getIndexRules } from "./indexRules";
+import { commitIndex, getKnownFiles, type DenseFields, type IndexEventListener } from "./indexer";
+import { ensureOffscreenDocument } from "./offscreenDocument";
+import {
+  clearIndexCheckpoints,
+  deleteIndexJob,
+  getIndexCheckpoints,
+  getIndexJob,
+  getIndexJobs,
+  getRoot,
+  getRootPermission,
+  saveIndexCheckpoint,
+  saveIndexJob,
+  saveScanReport,
+  type IndexCheckpoint,
+} from "./vectordb";
+import { createWorkflowId, logWorkflowError, logWorkflowStep } from "./workflow";
+import type {
+  CancelCollectRequest,
+  CollectFilesRequest,
+  CollectFilesResponse,
+  CollectProgressMessage,
+  IndexEvent,
+  IndexJob,
+  IndexJobAction,
+  IndexJobProgressMessage,
+  IndexJobState,
+  IndexScanResult,
+  ScanTrigger,
+} from "./types";
+
+/** States a job can still make progress from */
+const ACTIVE_STATES: IndexJobState[] = ["queued", "running", "paused"];
+
+/** Abort reasons for the running job */
+const PAUSE = "pause";
+const CANCEL = "cancel";
+
+let running: { job: IndexJob; controller: AbortController } | null = null;
+let draining: Promise<void> | null = null;
+/** Set when a job is queued while the queue is draining, so it isn't missed */
+let drainAgain = false;
+
+function broadcast(job: IndexJob) {
+  const msg: IndexJobProgressMessage = { type: "INDEX_JOB_PROGRESS", job };
+  chrome.runtime.sendMessage(msg, () => { void chrome.runtime.lastError; });
+}
+
+async function updateJob(job: IndexJob, patch: Partial<IndexJob>): Promise<void> {
+  Object.assign(job, patch, { updatedAt: Date.now() });
+  await saveIndexJob(job);
+  broadcast(job);
+}
+
+/**
+ * Queue a scan of a root. A root has at most one unfinished job: asking
+ * again returns it — resumed if it was paused. A scheduled rescan only
+ * resumes a job that paused itself for lack of folder access, once access is
+ * back; a pause the user chose sticks, and the skipped rescan is reported on
+ * the root so it doesn't go stale silently. Finished jobs of the root are
+ * dropped.
+ */
+export async function startIndexJob(
+  rootId: string,
+  incremental: boolean,
+  workflowId: string = createWorkflowId("index-job"),
+  trigger: ScanTrigger = "manual",
+): Promise<IndexJob> {
+  const root = await getRoot(rootId);
+  if (!root) throw new Error("This folder is no longer indexed.");
+
+  const jobs = (await getIndexJobs()).filter((j) => j.rootId === rootId);
+  const unfinished = jobs.find((j) => ACTIVE_STATES.includes(j.state));
+  if (unfinished) {
+    if (unfinished.state !== "paused") return unfinished;
+    if (trigger !== "alarm") return controlIndexJob(unfinished.id, "resume");
+    // Only a job that paused itself has an error: no folder access at the time
+    if (unfinished.error && await getRootPermission(rootId) === "granted") {
+      logWorkflowStep(workflowId, "index_job.access_restored", { jobId: unfinished.id, rootId });
+      return controlIndexJob(unfinished.id, "resume");
+    }
+    logWorkflowStep(workflowId, "index_job.alarm_skipped", { jobId: unfinished.id, rootId });
+    await saveScanReport(rootId, {
+      trigger,
+      finishedAt: Date.now(),
+      durationMs: 0,
+      error: unfinished.error
+        ? `Scheduled rescan skipped: ${unfinished.error}`
+        : "Scheduled rescan skipped: a scan of this folder is paused. Resume or cancel it in the popup.",
+    });
+    return unfinished;
+  }
+  for (const j of jobs) await deleteIndexJob(j.id);
+
+  const now = Date.now();
+  const job: IndexJob = {
+    id: `job-${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    rootId,
+    rootName: root.name,
+    trigger,
+    incremental,
+    state: "queued",
+    createdAt: now,
+    updatedAt: now,
+    workflowId,
+  };
+  await saveIndexJob(job);
+  broadcast(job);
+  logWorkflowStep(workflowId, "index_job.queued", { jobId: job.id, rootId, incremental, trigger });
+  void drainQueue();
+  return job;
+}
+
+/**
+ * Pause, resume or cancel a job. Pausing or cancelling the running job
+ * takes effect at its next file or embedding batch; cancelling discards its
+ * checkpoint and leaves the index as it was.
+ */
+export async function controlIndexJob(jobId: string, action: IndexJobAction): Promise<IndexJob> {
+  if (running?.job.id === jobId) {
+    if (action !== "resume") running.controller.abort(action === "pause" ? PAUSE : CANCEL);
+    return running.job;
+  }
+  const job = await getIndexJob(jobId);
+  if (!job) throw new Error("No such indexing job.");
+
+  if (action === "resume" && (job.state === "paused" || job.state === "failed")) {
+    await updateJob(job, { state: "queued", error: undefined });
+    void drainQueue();
+  } else if (action === "pause" && (job.state === "queued" || job.state === "running")) {
+    // "running" here means its worker was shut down and it's waiting to be picked up again
+    await updateJob(job, { state: "paused" });
+  } else if (action === "cancel" && ACTIVE_STATES.includes(job.state)) {
+    await clearIndexCheckpoints(job.id);
+    await updateJob(job, { state: "cancelled", progress: undefined });
+  }
+  return job;
+}
+
+/** Cancel every unfinished job and wait for the running one to stop (before clearing the index) */
+export async function cancelIndexJobs(): Promise<void> {
+  for (const job of await getIndexJobs()) {
+    if (ACTIVE_STATES.includes(job.state)) await controlIndexJob(job.id, "cancel");
+  }
+  await draining;
+}
+
+/** Run queued jobs, plus any left "running" by a service worker that was shut down mid-job */
+export function resumeIndexJobs(): Promise<void> {
+  return drainQueue();
+}
+
+function drainQueue(): Promise<void> {
+  if (draining) {
+    drainAgain = true;
+    return draining;
+  }
+  draining = (async () => {
+    do {
+      drainAgain = false;
+      let next: IndexJob | undefined;
+      while ((next = (await getIndexJobs()).find((j) => j.state === "queued" || j.state === "running"))) {
+        await runJob(next);
+      }
+    } while (drainAgain);
+  })().finally(() => {
+    draining = null;
+  });
+  return draining;
+}
+
+/** Walk a root's folder in the offscreen document; aborting `signal` stops the walk there too */
+async function collectInOffscreen(
+  req: CollectFilesRequest,
+  onEvent: IndexEventListener,
+  signal: AbortSignal,
+): Promise<CollectFilesResponse> {
+  await ensureOffscreenDocument();
+  const onProgress = (msg: { type?: string }) => {
+    if (msg?.type !== "COLLECT_PROGRESS") return;
+    const progress = msg as CollectProgressMessage;
+    if (progress.jobId === req.jobId) onEvent(progress.event);
+  };
+  const onAbort = () => {
+    const cancel: CancelCollectRequest = { type: "CANCEL_COLLECT", target: "offscreen", jobId: req.jobId };
+    chrome.runtime.sendMessage(cancel, () => { void chrome.runtime.lastError; });
+  };
+  chrome.runtime.onMessage.addListener(onProgress);
+  signal.addEventListener("abort", onAbort);
+  try {
+    const resp = await chrome.runtime.sendMessage(req) as CollectFilesResponse | undefined;
+    signal.throwIfAborted();
+    if (!resp || resp.error) throw new Error(resp?.error || "No response from the offscreen document.");
+    return resp;
+  } finally {
+    chrome.runtime.onMessage.removeListener(onProgress);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
+async function runJob(job: IndexJob): Promise<void> {
+  const controller = new AbortController();
+  running = { job, controller };
+  const { workflowId } = job;
+  const startedAt = Date.now();
+  const report = (fields: { result?: IndexScanResult; error?: string }) => saveScanReport(job.rootId, {
+    trigger: job.trigger,
+    finishedAt: Date.now(),
+    durationMs: Date.now() - startedAt,
+    ...fields,
+  });
+  await updateJob(job, { state: "running", error: undefined });
+  logWorkflowStep(workflowId, "index_job.start", {
+    jobId: job.id,
+    rootId: job.rootId,
+    incremental: job.incremental,
+    trigger: job.trigger,
+  });
+
+  try {
+    const root = await getRoot(job.rootId);
+    if (!root) throw new Error("This folder is no longer indexed.");
+
+    const checkpoints = new Map((await getIndexCheckpoints(job.id)).map((c) => [c.path, c]));
+    const embedder = activeEmbedder(await getApiConfig());
+    const known = job.incremental ? await getKnownFiles(root.id, embedder) : {};
+    // Files read before the interruption don't need reading again
+    for (const c of checkpoints.values()) {
+      known[c.path] = { size: c.size, lastModified: c.lastModified, needsText: false };
+    }
+    logWorkflowStep(workflowId, "index_job.checkpoint.loaded", { jobId: job.id, checkpointed: checkpoints.size });
+
+    const onEvent = (event: IndexEvent) => {
+      if (event.phase !== "done") void updateJob(job, { progress: event });
+    };
+
+    const collected = await collectInOffscreen({
+      type: "COLLECT_FILES",
+      target: "offscreen",
+      jobId: job.id,
+      rootId: root.id,
+      rules: await getIndexRules(),
+      known,
+    }, onEvent, controller.signal);
+    if (collected.permission || !collected.files) {
+      // Only a click in the popup can grant access again
+      const error = collected.permission === "missing"
+        ? `"${root.name}" has no folder linked. Rescan it from the popup to pick the folder.`
+        : `Access to "${root.name}" has expired. Resume to grant it again.`;
+      logWorkflowStep(workflowId, "index_job.no_permission", { jobId: job.id, permission: collected.permission });
+      await report({ error });
+      await updateJob(job, { state: "paused", error });
+      return;
+    }
+
+    // The walk checkpointed every file it read; pick their text up from there
+    for (const c of await getIndexCheckpoints(job.id)) checkpoints.set(c.path, c);
+    const dense = new Map<string, DenseFields>();
+    for (const f of collected.files) {
+      const c = checkpoints.get(f.path);
+      if (!c || c.size !== f.size || c.lastModified !== f.lastModified) continue;
+      f.text ??= c.text;
+      if (c.denseVector) dense.set(f.path, { denseVector: c.denseVector, denseModel: c.denseModel, denseDim: c.denseDim });
+    }
+
+    const result = await commitIndex(root.id, collected.files, {
+      excluded: collected.excluded,
+      unreadable: collected.unreadable,
+      onEvent,
+      workflowId,
+      dense,
+      signal: controller.signal,
+      onEmbedded: async (path, fields) => {
+        const c = checkpoints.get(path);
+        if (!c) return;
+        const updated: IndexCheckpoint = { ...c, ...fields };
+        checkpoints.set(path, updated);
+        await saveIndexCheckpoint(updated);
+      },
+    });
+
+    await clearIndexCheckpoints(job.id);
+    await report({ result });
+    await updateJob(job, { state: "done", progress: undefined, result });
+    logWorkflowStep(workflowId, "index_job.done", { jobId: job.id, total: result.total, durationMs: Date.now() - startedAt });
+  } catch (err: any) {
+    if (controller.signal.aborted && controller.signal.reason === CANCEL) {
+      await clearIndexCheckpoints(job.id);
+      await updateJob(job, { state: "cancelled", progress: undefined });
+      logWorkflowStep(workflowId, "index_job.cancelled", { jobId: job.id });
+    } else if (controller.signal.aborted) {
+      await updateJob(job, { state: "paused" });
+      logWorkflowStep(workflowId, "index_job.paused", { jobId: job.id });
+    } else {
+      // The checkpoint is kept, so resuming a failed job doesn't start over
+      logWorkflowError(workflowId, "index_job.failed", err);
+      const error = err?.message || String(err);
+      await report({ error });
+      await updateJob(job, { state: "failed", error });
+    }
+  } finally {
+    running = null;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Index rules: which files a folder scan visits.
+ * Globs follow .gitignore conventions — a pattern without a slash matches a
+ * name at any depth, one with a slash is anchored to the folder it applies
+ * to, a trailing slash matches folders only, `**` spans folders and `!`
+ * re-includes. Folders excluded by a rule or an ignore file are skipped
+ * without being opened, so large trees like node_modules cost nothing.
+ */
+
+import type { IndexRules } from "./types";
+
+const STORAGE_KEY = "xupload_index_rules";
+
+/** Ignore files read from each folder during the walk, when enabled */
+const IGNORE_FILES = [".gitignore", ".xuploadignore"];
+
+export const DEFAULT_INDEX_RULES: IndexRules = {
+  include: [],
+  exclude: [
+    "node_modules/",
+    "__pycache__/",
+    ".DS_Store",
+    "Thumbs.db",
+    "desktop.ini",
+    "*.tmp",
+    "~$*",
+  ],
+  extensions: [],
+  maxFileSizeMB: 50,
+  useIgnoreFiles: true,
+};
+
+export function getIndexRules(): Promise<IndexRules> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEY, (data) => {
+      resolve({ ...DEFAULT_INDEX_RULES, ...data[STORAGE_KEY] });
+    });
+  });
+}
+
+export function saveIndexRules(rules: IndexRules): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEY]: rules }, () => resolve());
+  });
+}
+
+interface GlobRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/** Translate one glob into a regex over paths relative to `base` */
+function compileGlob(pattern: string): { regex: RegExp; dirOnly: boolean } {
+  let p = pattern;
+  const dirOnly = p.endsWith("/");
+  if (dirOnly) p = p.slice(0, -1);
+  // No slash (other than a trailing one) → match the name at any depth
+  const anchored = p.includes("/");
+  if (p.startsWith("/")) p = p.slice(1);
+
+  let re = "";
+  for (let i = 0; i < p.length; i++) {
+    const c = p[i];
+    if (c === "*") {
+      if (p[i + 1] === "*") {
+        // "**/" = zero or more folders; a trailing "**" = everything below
+        if (p[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return { regex: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${re}$`, "i"), dirOnly };
+}
+
+/** Parse globs (one per line in ignore files); blank lines and # comments are skipped */
+function parseRules(lines: string[]): GlobRule[] {
+  const rules: GlobRule[] = [];
+  for (const raw of lines) {
+    let line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    if (line.startsWith("\\")) line = line.slice(1);
+    rules.push({ ...compileGlob(line), negate });
+  }
+  return rules;
+}
+
+/** Rules from one ignore file; they apply to paths under the folder it sits in */
+interface IgnoreScope {
+  base: string;
+  rules: GlobRule[];
+}
+
+/**
+ * Whether a path is ignored by the scopes in effect, gitignore-style: later
+ * and deeper rules override earlier ones.
+ */
+function isIgnored(scopes: IgnoreScope[], path: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const scope of scopes) {
+    const rel = scope.base ? path.slice(scope.base.length + 1) : path;
+    for (const rule of scope.rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.regex.test(rel)) ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+export interface WalkedFile {
+  fileHandle: FileSystemFileHandle;
+  file: File;
+  /** Relative to the walked folder, "/"-separated */
+  path: string;
+}
+
+export interface WalkStats {
+  /** Files and folders left out by a rule, counting a skipped folder once */
+  skipped: number;
+  unreadable: number;
+}
+
+/**
+ * Collect the files in a folder tree that pass the rules. Dot-folders are
+ * always skipped, as before rules existed.
+ */
+export async function walkFiles(
+  root: FileSystemDirectoryHandle,
+  rules: IndexRules,
+  stats: WalkStats = { skipped: 0, unreadable: 0 },
+): Promise<WalkedFile[]> {
+  const exclude = parseRules(rules.exclude);
+  const include = parseRules(rules.include);
+  const extensions = new Set(rules.extensions.map((e) => e.toLowerCase().replace(/^\./, "")));
+  const maxBytes = rules.maxFileSizeMB > 0 ? rules.maxFileSizeMB * 1024 * 1024 : Infinity;
+  const result: WalkedFile[] = [];
+
+  const visit = async (dir: FileSystemDirectoryHandle, basePath: string, inherited: IgnoreScope[]) => {
+    const scopes = rules.useIgnoreFiles
+      ? [...inherited, ...await readIgnoreFiles(dir, basePath)]
+      : inherited;
+
+    for await (const entry of (dir as any).values()) {
+      const path = basePath ? `${basePath}/${entry.name}` : entry.name;
+      if (entry.kind === "directory") {
+        if (entry.name.startsWith(".")) continue;
+        if (isIgnored([{ base: "", rules: exclude }], path, true) || isIgnored(scopes, path, true)) {
+          stats.skipped++;
+          continue;
+        }
+        await visit(entry, path, scopes);
+        continue;
+      }
+      if (entry.kind !== "file" || IGNORE_FILES.includes(entry.name)) continue;
+
+      const ext = entry.name.includes(".") ? entry.name.split(".").pop()!.toLowerCase() : "";
+      if (
+        isIgnored([{ base: "", rules: exclude }], path, false) ||
+        isIgnored(scopes, path, false) ||
+        (include.length > 0 && !include.some((r) => r.regex.test(path))) ||
+        (extensions.size > 0 && !extensions.has(ext))
+      ) {
+        stats.skipped++;
+        continue;
+      }
+
+      try {
+        const file: File = await entry.getFile();
+        if (file.size > maxBytes) {
+          stats.skipped++;
+          continue;
+        }
+        result.push({ fileHandle: entry, file, path });
+      } catch {
+        stats.unreadable++;
+      }
+    }
+  };
+
+  await visit(root, "", []);
+  return result;
+}
+
+async function readIgnoreFiles(dir: FileSystemDirectoryHandle, basePath: string): Promise<IgnoreScope[]> {
+  const scopes: IgnoreScope[] = [];
+  for (const name of IGNORE_FILES) {
+    try {
+      const file = await (await dir.getFileHandle(name)).getFile();
+      scopes.push({ base: basePath, rules: parseRules((await file.text()).split(/\r?\n/)) });
+    } catch {
+      // No such file in this folder
+    }
+  }
+  return scopes;
+}
@@ -0,0 +1,412 @@
+/**
+ * The indexing engine. Every scan — "Add folder" and rescans in the popup,
+ * the inline scan on a page, scheduled rescans — runs the same two phases,
+ * so a folder ends up indexed identically whichever surface scanned it:
+ *
+ *   collectFiles  walk a folder under the index rules and extract text,
+ *                 skipping files the index already has unchanged
+ *   commitIndex   diff against the root's records, drop files that are gone,
+ *                 rebuild the vocabulary across all roots, embed new, changed
+ *                 and stale files, and write everything back
+ *
+ * Scans from the popup run both phases as a background job (indexJobs.ts),
+ * reading the folder through its stored handle. A page can't hand its folder
+ * handle to the extension, so the content script runs collectFiles itself
+ * and ships the files to the background to commit (BUILD_INDEX). Progress
+ * comes back as IndexEvents.
+ */
+
+import { buildVocabulary, exportVocab, extractText, importVocab, tokenize, vectorize } from "./embeddings";
+import { walkFiles, type WalkStats } from "./indexRules";
+import { activeEmbedder, batchEmbedSettled, getApiConfig, type EmbeddingProvider } from "./apiEmbeddings";
+import {
+  deleteById,
+  fileIdFor,
+  getAll,
+  getCount,
+  getRecordsByRoot,
+  getRoot,
+  isDenseCompatible,
+  saveRoot,
+  saveVocab,
+  upsert,
+  type VectorRecord,
+} from "./vectordb";
+import { createWorkflowId, logWorkflowError, logWorkflowStep } from "./workflow";
+import type {
+  CollectedFile,
+  EmbedFailure,
+  IndexEvent,
+  IndexRules,
+  IndexScanResult,
+  KnownFile,
+} from "./types";
+
+/** Texts per embedding request */
+const EMBED_BATCH_SIZE = 10;
+/** Texts embedded between onEmbedded checkpoints and abort checks */
+const EMBED_CHUNK_SIZE = 50;
+/** Chars of a file's text sent for embedding */
+const EMBED_CHARS = 2000;
+/** Chars of a file's text kept on its record */
+const PREVIEW_CHARS = 500;
+
+export type IndexEventListener = (event: IndexEvent) => void;
+
+export interface CollectOptions {
+  rules: IndexRules;
+  /** Indexed files by path; unchanged ones aren't read again. Empty = read everything */
+  known?: Record<string, KnownFile>;
+  onEvent?: IndexEventListener;
+  /** Called for each file read, e.g. to checkpoint it */
+  onRead?: (file: CollectedFile & { text: string }) => Promise<void>;
+  /** Checked between files */
+  signal?: AbortSignal;
+}
+
+export interface CollectResult {
+  files: CollectedFile[];
+  /** Files and folders left out by index rules */
+  excluded: number;
+  unreadable: number;
+}
+
+export function guessType(name: string): string {
+  const ext = name.split(".").pop()?.toLowerCase() || "";
+  const map: Record<string, string> = {
+    pdf: "application/pdf",
+    jpg: "image/jpeg", jpeg: "image/jpeg",
+    png: "image/png", gif: "image/gif", webp: "image/webp",
+    doc: "application/msword",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    xls: "application/vnd.ms-excel",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    txt: "text/plain", csv: "text/csv",
+  };
+  return map[ext] || "application/octet-stream";
+}
+
+type FileStamp = { size: number; lastModified: number };
+
+function isUnchanged(known: FileStamp, file: FileStamp): boolean {
+  return known.size === file.size && known.lastModified === file.lastModified;
+}
+
+/**
+ * What a root already holds, for an incremental collectFiles. Unchanged files
+ * are flagged for reading anyway when their embedding is missing or from
+ * another model than `embedder`.
+ */
+export async function getKnownFiles(
+  rootId: string,
+  embedder: EmbeddingProvider | null,
+): Promise<Record<string, KnownFile>> {
+  const known: Record<string, KnownFile> = {};
+  for (const r of await getRecordsByRoot(rootId)) {
+    known[r.path] = {
+      size: r.size,
+      lastModified: r.lastModified,
+      needsText: !!embedder && !isDenseCompatible(r, embedder.id, embedder.dimension),
+    };
+  }
+  return known;
+}
+
+/** Phase 1: walk a folder and read the files that need (re-)indexing */
+export async function collectFiles(
+  dirHandle: FileSystemDirectoryHandle,
+  { rules, known = {}, onEvent, onRead, signal }: CollectOptions,
+): Promise<CollectResult> {
+  const stats: WalkStats = { skipped: 0, unreadable: 0 };
+  const entries = await walkFiles(dirHandle, rules, stats);
+  onEvent?.({ phase: "walk", discovered: entries.length, excluded: stats.skipped });
+
+  const files: CollectedFile[] = [];
+  let unchanged = 0;
+  let unreadable = stats.unreadable;
+
+  for (let i = 0; i < entries.length; i++) {
+    signal?.throwIfAborted();
+    const { file, path } = entries[i];
+    const entry: CollectedFile = {
+      path,
+      name: file.name,
+      type: file.type || guessType(file.name),
+      size: file.size,
+      lastModified: file.lastModified,
+    };
+    const prior = known[path];
+    try {
+      if (prior && isUnchanged(prior, file)) {
+        unchanged++;
+        if (prior.needsText) entry.text = await extractText(file, path);
+      } else {
+        entry.text = await extractText(file, path);
+      }
+      files.push(entry);
+    } catch {
+      unreadable++;
+      continue;
+    }
+    if (onRead && entry.text !== undefined) await onRead({ ...entry, text: entry.text });
+    if (i % 10 === 0 || i === entries.length - 1) {
+      onEvent?.({ phase: "read", done: i + 1, total: entries.length, unchanged });
+    }
+  }
+
+  return { files, excluded: stats.skipped, unreadable };
+}
+
+export interface CommitOptions {
+  /** Carried into the result, from collectFiles */
+  excluded?: number;
+  unreadable?: number;
+  onEvent?: IndexEventListener;
+  workflowId?: string;
+  /** Embeddings made earlier for these paths (a resumed job's checkpoint); used if from the current model */
+  dense?: Map<string, DenseFields>;
+  /** Called as embeddings come in, e.g. to checkpoint them */
+  onEmbedded?: (path: string, dense: DenseFields) => Promise<void>;
+  /**
+   * Checked up to the end of embedding. Writing the records isn't
+   * interrupted, so an abort never leaves the index half-written.
+   */
+  signal?: AbortSignal;
+}
+
+/** Dense vector fields for a record, from a successful embedding */
+export type DenseFields = Pick<VectorRecord, "denseVector" | "denseModel" | "denseDim">;
+
+let indexLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run `fn` once every earlier index writer in this context has finished.
+ * commitIndex reads every root's records up front and writes them all back,
+ * so any write that overlaps it — a job, a page scan, a re-embed, removing a
+ * root — would be undone. Every writer in the background goes through here.
+ */
+export function withIndexLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = indexLock.then(fn, fn);
+  indexLock = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Phase 2: make a root's records match `files`, the complete set of files now
+ * in its folder. Other roots keep their files; they're only re-vectorized
+ * against the rebuilt vocabulary. Files whose embedding fails are still
+ * indexed, without a dense vector, and listed in the result. Holds the index
+ * lock from the first read to the last write.
+ */
+export function commitIndex(
+  rootId: string,
+  files: CollectedFile[],
+  options: CommitOptions = {},
+): Promise<IndexScanResult> {
+  return withIndexLock(() => commitIndexLocked(rootId, files, options));
+}
+
+async function commitIndexLocked(
+  rootId: string,
+  files: CollectedFile[],
+  {
+    excluded = 0,
+    unreadable = 0,
+    onEvent,
+    workflowId = createWorkflowId("index"),
+    dense: earlierDense,
+    onEmbedded,
+    signal,
+  }: CommitOptions,
+): Promise<IndexScanResult> {
+  logWorkflowStep(workflowId, "index.commit.start", { rootId, fileCount: files.length });
+
+  const existingMap = new Map((await getRecordsByRoot(rootId)).map((r) => [r.path, r]));
+  const embedder = activeEmbedder(await getApiConfig());
+  signal?.throwIfAborted();
+
+  // Files that came with text are (re-)indexed from it; the rest are
+  // unchanged and keep their record. An unchanged file keeps its embedding
+  // too, unless it's missing or from another model.
+  const reindexed: { file: CollectedFile & { text: string }; previous?: VectorRecord }[] = [];
+  const kept: VectorRecord[] = [];
+  const currentPaths = new Set<string>();
+  let updated = 0;
+  for (const f of files) {
+    const existing = existingMap.get(f.path);
+    const same = !!existing && isUnchanged(existing, f);
+    if (f.text !== undefined) {
+      reindexed.push({ file: { ...f, text: f.text }, previous: same ? existing : undefined });
+      if (!same) updated++;
+    } else if (same) {
+      kept.push(existing!);
+    } else {
+      // Collected as unchanged, but its record has changed or gone since
+      unreadable++;
+      continue;
+    }
+    currentPaths.add(f.path);
+  }
+
+  // Deleted with the other writes, after the last abort check
+  const removed = Array.from(existingMap.values()).filter((r) => !currentPaths.has(r.path));
+  const deleted = removed.length;
+  logWorkflowStep(workflowId, "index.commit.diff.done", {
+    updated,
+    reread: reindexed.length - updated,
+    kept: kept.length,
+    deleted,
+  });
+
+  const result: IndexScanResult = {
+    rootId,
+    discovered: files.length,
+    updated,
+    unchanged: reindexed.length - updated + kept.length,
+    deleted,
+    unreadable,
+    excluded,
+    embedded: 0,
+    embedFailures: [],
+    total: 0,
+  };
+
+  if (reindexed.length === 0 && deleted === 0) {
+    // Nothing to write, so nothing left to abort
+    await touchRoot(rootId);
+    result.total = await getCount();
+    logWorkflowStep(workflowId, "index.commit.no_changes", { unchanged: kept.length });
+    onEvent?.({ phase: "done", result });
+    return result;
+  }
+
+  // The vocabulary spans every root, so other roots' files count too
+  const others = (await getAll()).filter((r) => r.rootId !== rootId);
+  signal?.throwIfAborted();
+  const reindexedTokens = reindexed.map(({ file }) => tokenize(file.text));
+  const keptTokens = kept.map((r) => tokenize(r.textPreview));
+  const otherTokens = others.map((r) => tokenize(r.textPreview));
+  // Built aside: matches keep using the vocabulary the stored vectors were
+  // made with until the writes below, and an abort leaves it untouched
+  const previousVocab = exportVocab();
+  buildVocabulary([...reindexedTokens, ...keptTokens, ...otherTokens]);
+  const vocab = exportVocab();
+  importVocab(previousVocab);
+  logWorkflowStep(workflowId, "index.commit.vocab.done", {
+    vocabDocs: reindexed.length + kept.length + others.length,
+  });
+
+  // Dense embeddings: new/changed files, and unchanged ones without a usable one
+  const denseByPath = new Map<string, DenseFields>();
+  const embedFailures: EmbedFailure[] = [];
+  if (embedder) {
+    const toEmbed: { path: string; text: string }[] = [];
+    for (const { file, previous } of reindexed) {
+      const earlier = earlierDense?.get(file.path);
+      if (earlier?.denseModel === embedder.id) {
+        denseByPath.set(file.path, earlier);
+      } else if (!previous || !isDenseCompatible(previous, embedder.id, embedder.dimension)) {
+        toEmbed.push({ path: file.path, text: file.text });
+      }
+    }
+    logWorkflowStep(workflowId, "service.embedding.batchEmbedSettled.start", {
+      provider: embedder.id,
+      fileCount: toEmbed.length,
+      reused: denseByPath.size,
+    });
+    onEvent?.({ phase: "embed", done: 0, total: toEmbed.length });
+    for (let start = 0; start < toEmbed.length; start += EMBED_CHUNK_SIZE) {
+      signal?.throwIfAborted();
+      const chunk = toEmbed.slice(start, start + EMBED_CHUNK_SIZE);
+      const settled = await batchEmbedSettled(
+        chunk.map((e) => e.text.slice(0, EMBED_CHARS)),
+        embedder,
+        EMBED_BATCH_SIZE,
+        (done) => onEvent?.({ phase: "embed", done: start + done, total: toEmbed.length }),
+      );
+      for (let i = 0; i < settled.length; i++) {
+        const outcome = settled[i];
+        const { path } = chunk[i];
+        if (outcome.status === "fulfilled") {
+          const fields: DenseFields = { denseVector: outcome.value, denseModel: embedder.id, denseDim: outcome.value.length };
+          denseByPath.set(path, fields);
+          await onEmbedded?.(path, fields);
+        } else {
+          embedFailures.push({ path, error: outcome.reason?.message || String(outcome.reason) });
+        }
+      }
+    }
+    if (embedFailures.length > 0) {
+      logWorkflowError(workflowId, "service.embedding.batchEmbedSettled.partial_failure", {
+        failedCount: embedFailures.length,
+        failedPaths: embedFailures.slice(0, 20).map((f) => f.path),
+      });
+    }
+    logWorkflowStep(workflowId, "service.embedding.batchEmbedSettled.done", {
+      embedded: denseByPath.size,
+      failed: embedFailures.length,
+    });
+  }
+
+  signal?.throwIfAborted();
+  importVocab(vocab);
+  for (const r of removed) await deleteById(r.id);
+  const writes = reindexed.length + kept.length + others.length;
+  let written = 0;
+  const wrote = () => {
+    written++;
+    if (written % 10 === 0 || written === writes) onEvent?.({ phase: "write", done: written, total: writes });
+  };
+  for (let i = 0; i < reindexed.length; i++) {
+    const { file: f, previous } = reindexed[i];
+    const dense: DenseFields | undefined = denseByPath.get(f.path) ?? (previous && {
+      denseVector: previous.denseVector,
+      denseModel: previous.denseModel,
+      denseDim: previous.denseDim,
+    });
+    await upsert({
+      id: fileIdFor(rootId, f.path),
+      rootId,
+      name: f.name,
+      path: f.path,
+      type: f.type,
+      size: f.size,
+      lastModified: f.lastModified,
+      vector: vectorize(reindexedTokens[i]),
+      textPreview: f.text.slice(0, PREVIEW_CHARS),
+      ...dense,
+    });
+    wrote();
+  }
+  for (let i = 0; i < kept.length; i++) {
+    await upsert({ ...kept[i], vector: vectorize(keptTokens[i]) });
+    wrote();
+  }
+  for (let i = 0; i < others.length; i++) {
+    await upsert({ ...others[i], vector: vectorize(otherTokens[i]) });
+    wrote();
+  }
+
+  await saveVocab(vocab);
+  await new Promise<void>((resolve) => chrome.storage.local.set({ vocab }, () => resolve()));
+  // Other extension pages (the background, when the popup indexed) reload it
+  chrome.runtime.sendMessage({ type: "VOCAB_UPDATED" }, () => { void chrome.runtime.lastError; });
+  await touchRoot(rootId);
+
+  result.embedded = denseByPath.size;
+  result.embedFailures = embedFailures;
+  result.total = await getCount();
+  logWorkflowStep(workflowId, "index.commit.done", {
+    ...result,
+    embedFailures: embedFailures.length,
+    vocabTerms: vocab.terms.length,
+  });
+  onEvent?.({ phase: "done", result });
+  return result;
+}
+
+/** Stamp a root's last scan, re-reading it so concurrent edits aren't lost */
+async function touchRoot(rootId: string): Promise<void> {
+  const root = await getRoot(rootId);
+  if (root) await saveRoot({ ...root, lastScanTimestamp: Date.now() });
+}
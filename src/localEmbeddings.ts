@@ -0,0 +1,22 @@
+/**
+ * Background side of "local" mode: opens the offscreen document that hosts
+ * the on-device embedding model (src/offscreen.ts) and forwards texts to it.
+ */
+
+import { ensureOffscreenDocument } from "./offscreenDocument";
+import type { LocalEmbedRequest, LocalEmbedResponse } from "./types";
+
+/** Sentence-embedding model run in the offscreen document (384-dim) */
+export const LOCAL_MODEL_ID = "Xenova/all-MiniLM-L6-v2";
+export const LOCAL_MODEL_DIMENSION = 384;
+
+/** Embed texts with the on-device model. Throws if the model can't load or run. */
+export async function localEmbed(texts: string[]): Promise<number[][]> {
+  await ensureOffscreenDocument();
+  const req: LocalEmbedRequest = { type: "LOCAL_EMBED", target: "offscreen", texts };
+  const resp: LocalEmbedResponse | undefined = await chrome.runtime.sendMessage(req);
+  if (!resp?.vectors) {
+    throw new Error(`Local embedding failed: ${resp?.error || "no response from offscreen document"}`);
+  }
+  return resp.vectors;
+}
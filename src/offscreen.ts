@@ -0,0 +1,138 @@
+/**
+ * Offscreen document (opened on demand, see offscreenDocument.ts). Two jobs:
+ *
+ * For "local" mode it runs a small sentence-embedding model
+ * (all-MiniLM-L6-v2, quantized ONNX) with transformers.js on WASM. MV3
+ * service workers can't host the WASM runtime reliably, so the background
+ * sends LOCAL_EMBED messages here.
+ *
+ * For background scans (indexJobs.ts) it walks a root's folder through the
+ * directory handle stored in IndexedDB and reads new and changed files
+ * (COLLECT_FILES), checkpointing each into the job as it goes.
+ *
+ * The model weights are fetched from the Hugging Face Hub on first use and
+ * kept in the browser cache; after that, embedding needs no network. The
+ * ONNX runtime's WASM files ship with the extension (copied into dist/ at
+ * build time), since extension pages can't load code from a CDN.
+ */
+
+import { env, pipeline, type FeatureExtractionPipeline } from "@huggingface/transformers";
+import { LOCAL_MODEL_ID } from "./localEmbeddings";
+import { collectFiles } from "./indexer";
+import { getDirectoryHandle, saveIndexCheckpoint } from "./vectordb";
+import type {
+  CancelCollectRequest,
+  CollectFilesRequest,
+  CollectFilesResponse,
+  CollectProgressMessage,
+  LocalEmbedRequest,
+  LocalEmbedResponse,
+} from "./types";
+
+/** Chars per text — the model truncates at 256 tokens anyway */
+const MAX_CHARS = 2000;
+
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+const onnxWasm = env.backends.onnx.wasm;
+if (onnxWasm) {
+  // ONNX Runtime loads its glue module (ort-wasm-simd-threaded.jsep.mjs) from
+  // here. Vite emits the .wasm next to offscreen.js but can't see the .mjs
+  // import, so postbuild copies that one file into dist/.
+  onnxWasm.wasmPaths = chrome.runtime.getURL("/");
+  // Threads need cross-origin isolation, which extension pages don't have
+  onnxWasm.numThreads = 1;
+}
+
+let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractorPromise) {
+    extractorPromise = pipeline<"feature-extraction">("feature-extraction", LOCAL_MODEL_ID, { dtype: "q8" });
+    // A failed load (e.g. offline on first use) shouldn't stick
+    extractorPromise.catch(() => {
+      extractorPromise = null;
+    });
+  }
+  return extractorPromise;
+}
+
+async function embed(texts: string[]): Promise<number[][]> {
+  const extractor = await getExtractor();
+  const output = await extractor(
+    texts.map((t) => t.slice(0, MAX_CHARS)),
+    { pooling: "mean", normalize: true },
+  );
+  return output.tolist() as number[][];
+}
+
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.target !== "offscreen" || msg.type !== "LOCAL_EMBED") return;
+  const req = msg as LocalEmbedRequest;
+  embed(req.texts)
+    .then((vectors) => {
+      const resp: LocalEmbedResponse = { vectors };
+      sendResponse(resp);
+    })
+    .catch((err) => {
+      const resp: LocalEmbedResponse = { error: err?.message || String(err) };
+      sendResponse(resp);
+    });
+  return true;
+});
+
+// ---- Folder walks for background scans ----
+
+/** Running COLLECT_FILES walks by job, so CANCEL_COLLECT can stop them */
+const collecting = new Map<string, AbortController>();
+
+async function collect(req: CollectFilesRequest): Promise<CollectFilesResponse> {
+  const dirHandle = await getDirectoryHandle(req.rootId);
+  if (!dirHandle) return { permission: "missing" };
+  const permission = await (dirHandle as any).queryPermission({ mode: "read" });
+  if (permission !== "granted") return { permission };
+
+  const controller = new AbortController();
+  collecting.set(req.jobId, controller);
+  try {
+    const result = await collectFiles(dirHandle, {
+      rules: req.rules,
+      known: req.known,
+      signal: controller.signal,
+      onEvent: (event) => {
+        const msg: CollectProgressMessage = { type: "COLLECT_PROGRESS", jobId: req.jobId, event };
+        chrome.runtime.sendMessage(msg, () => { void chrome.runtime.lastError; });
+      },
+      onRead: (f) => saveIndexCheckpoint({
+        jobId: req.jobId,
+        path: f.path,
+        size: f.size,
+        lastModified: f.lastModified,
+        text: f.text,
+      }),
+    });
+    return {
+      files: result.files.map(({ text: _text, ...f }) => f),
+      excluded: result.excluded,
+      unreadable: result.unreadable,
+    };
+  } finally {
+    collecting.delete(req.jobId);
+  }
+}
+
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.target !== "offscreen") return;
+  if (msg.type === "CANCEL_COLLECT") {
+    collecting.get((msg as CancelCollectRequest).jobId)?.abort();
+    return;
+  }
+  if (msg.type !== "COLLECT_FILES") return;
+  collect(msg as CollectFilesRequest)
+    .then(sendResponse)
+    .catch((err) => {
+      const resp: CollectFilesResponse = { error: err?.message || String(err) };
+      sendResponse(resp);
+    });
+  return true;
+});
@@ -0,0 +1,31 @@
+/**
+ * The extension's one offscreen document (offscreen.html). It hosts the
+ * on-device embedding model for "local" mode and walks indexed folders for
+ * background scans, since the service worker can neither run the WASM model
+ * reliably nor read folders through the File System Access API.
+ */
+
+const OFFSCREEN_PATH = "offscreen.html";
+
+let creating: Promise<void> | null = null;
+
+/** Open the offscreen document unless it's already running. Concurrent callers share one creation. */
+export async function ensureOffscreenDocument(): Promise<void> {
+  const url = chrome.runtime.getURL(OFFSCREEN_PATH);
+  const existing = await chrome.runtime.getContexts({
+    contextTypes: ["OFFSCREEN_DOCUMENT" as chrome.runtime.ContextType],
+    documentUrls: [url],
+  });
+  if (existing.length > 0) return;
+
+  if (!creating) {
+    creating = chrome.offscreen.createDocument({
+      url: OFFSCREEN_PATH,
+      reasons: ["WORKERS" as chrome.offscreen.Reason],
+      justification: "Run the on-device text embedding model (WASM) and read indexed folders for background rescans",
+    }).finally(() => {
+      creating = null;
+    });
+  }
+  await creating;
+}
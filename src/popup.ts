@@ -1,98 +1,208 @@
 import {
-  extractText,
-  tokenize,
-  buildVocabulary,
-  vectorize,
-  exportVocab,
-} from "./embeddings";
-import {
-  upsert,
-  clearAll,
   getCount,
-  getAll,
-  deleteById,
+  getRecordsByRoot,
   saveDirectoryHandle,
   getDirectoryHandle,
-  saveVocab,
-  getRescanConfig,
-  saveRescanConfig,
-  type VectorRecord,
+  getRoots,
+  getRoot,
+  addRoot,
+  saveRoot,
+  getRootPermission,
+  type IndexRoot,
+  type RootPermission,
 } from "./vectordb";
 import { createWorkflowId, logWorkflowError, logWorkflowStep } from "./workflow";
-import type { ClearScannedDataResponse } from "./types";
+import type {
+  ClearScannedDataResponse,
+  EmbedFailure,
+  EmbeddingProviderKind,
+  FillAllZonesResponse,
+  GetIndexJobsResponse,
+  IndexEvent,
+  IndexJob,
+  IndexJobAction,
+  IndexJobControlRequest,
+  IndexJobProgressMessage,
+  IndexJobResponse,
+  IndexRules,
+  IndexScanResult,
+  RankingStatusResponse,
+  ReembedProgressMessage,
+  ReembedStatus,
+  RemoveRootRequest,
+  RemoveRootResponse,
+  ScanReport,
+  ScanTrigger,
+  StartIndexJobRequest,
+  XUploadConfig,
+} from "./types";
+import { getIndexRules, saveIndexRules } from "./indexRules";
+import { PROVIDER_DEFAULTS, providerOrigin } from "./apiEmbeddings";
 
 const countEl = document.getElementById("count")!;
 const scanBtn = document.getElementById("scanBtn") as HTMLButtonElement;
 const rescanBtn = document.getElementById("rescanBtn") as HTMLButtonElement | null;
 const clearBtn = document.getElementById("clearBtn") as HTMLButtonElement | null;
+const fillAllBtn = document.getElementById("fillAllBtn") as HTMLButtonElement | null;
 const progressEl = document.getElementById("progress")!;
 const fileListEl = document.getElementById("fileList")!;
 const lastScanEl = document.getElementById("lastScan") as HTMLElement | null;
-const autoRescanCheckbox = document.getElementById("autoRescan") as HTMLInputElement | null;
-const rescanIntervalSelect = document.getElementById("rescanInterval") as HTMLSelectElement | null;
+const rootListEl = document.getElementById("rootList") as HTMLElement | null;
+const ruleExcludeInput = document.getElementById("ruleExclude") as HTMLTextAreaElement | null;
+const ruleIncludeInput = document.getElementById("ruleInclude") as HTMLTextAreaElement | null;
+const ruleExtensionsInput = document.getElementById("ruleExtensions") as HTMLInputElement | null;
+const ruleMaxSizeInput = document.getElementById("ruleMaxSize") as HTMLInputElement | null;
+const ruleIgnoreFilesCheckbox = document.getElementById("ruleIgnoreFiles") as HTMLInputElement | null;
 const apiKeyInput = document.getElementById("apiKey") as HTMLInputElement | null;
 const matchModeSelect = document.getElementById("matchMode") as HTMLSelectElement | null;
+const modeHintEl = document.getElementById("modeHint") as HTMLElement | null;
+const fusionSelect = document.getElementById("fusionMethod") as HTMLSelectElement | null;
+const providerSelect = document.getElementById("provider") as HTMLSelectElement | null;
+const baseUrlInput = document.getElementById("baseUrl") as HTMLInputElement | null;
+const embeddingModelInput = document.getElementById("embeddingModel") as HTMLInputElement | null;
+const visionModelInput = document.getElementById("visionModel") as HTMLInputElement | null;
+const dimensionInput = document.getElementById("dimension") as HTMLInputElement | null;
 const enableToggle = document.getElementById("enableToggle") as HTMLInputElement | null;
+const rankingStatusEl = document.getElementById("rankingStatus") as HTMLElement | null;
+const resetRankingBtn = document.getElementById("resetRankingBtn") as HTMLButtonElement | null;
+const embedStatusEl = document.getElementById("embedStatus") as HTMLElement | null;
+const jobControlsEl = document.getElementById("jobControls") as HTMLElement | null;
+const jobPauseBtn = document.getElementById("jobPauseBtn") as HTMLButtonElement | null;
+const jobCancelBtn = document.getElementById("jobCancelBtn") as HTMLButtonElement | null;
 
 // Load initial state
 getCount().then((n) => (countEl.textContent = String(n)));
-loadRescanConfig();
+renderRoots();
+loadIndexRules();
 loadApiConfig();
 showLastScanTime();
 loadEnabledState();
+loadRankingStatus();
+loadEmbedStatus();
+loadIndexJobs();
 
+// Add folder: a new root, or a full rebuild if this folder is already one
 scanBtn.addEventListener("click", async () => {
   const workflowId = createWorkflowId("scan-popup");
   logWorkflowStep(workflowId, "scan.popup.click");
   try {
     logWorkflowStep(workflowId, "service.filesystem.showDirectoryPicker.start");
-    const dirHandle = await (window as any).showDirectoryPicker({ mode: "read" });
+    const dirHandle: FileSystemDirectoryHandle = await (window as any).showDirectoryPicker({ mode: "read" });
     logWorkflowStep(workflowId, "service.filesystem.showDirectoryPicker.done");
-    await buildIndex(dirHandle, false, workflowId);
+    const root = await findRootForHandle(dirHandle) || await addRoot(dirHandle.name, dirHandle);
+    logWorkflowStep(workflowId, "scan.popup.root", { rootId: root.id, name: root.name });
+    await buildIndex(root, dirHandle, false, workflowId);
   } catch (err: any) {
     if (err.name !== "AbortError") {
       logWorkflowError(workflowId, "scan.popup.failed", err);
       progressEl.textContent = "Error scanning folder";
-      scanBtn.disabled = false;
-      if (rescanBtn) rescanBtn.disabled = false;
+      setScanButtonsDisabled(false);
     } else {
       logWorkflowStep(workflowId, "scan.popup.cancelled");
     }
   }
 });
 
-// Rescan button: incremental scan using stored directory handle
+/**
+ * Rescan button: incremental scan of every enabled root whose folder is
+ * readable now. A click grants one permission prompt, so roots that need
+ * access are left to their own Rescan button.
+ */
 if (rescanBtn) {
   rescanBtn.addEventListener("click", async () => {
     const workflowId = createWorkflowId("rescan-popup");
     logWorkflowStep(workflowId, "rescan.popup.click");
-    try {
-      logWorkflowStep(workflowId, "service.vectordb.getDirectoryHandle.start");
-      const dirHandle = await getDirectoryHandle();
-      if (!dirHandle) {
-        logWorkflowStep(workflowId, "rescan.popup.no_directory_handle");
-        progressEl.textContent = "No folder selected yet. Use 'Select folder' first.";
+    const roots = (await getRoots()).filter((r) => r.enabled);
+    if (roots.length === 0) {
+      logWorkflowStep(workflowId, "rescan.popup.no_roots");
+      progressEl.textContent = "No folder added yet. Use 'Add folder' first.";
+      return;
+    }
+    const needAccess: IndexRoot[] = [];
+    for (const root of roots) {
+      if (await getRootPermission(root.id) === "granted") await rescanRoot(root, workflowId);
+      else needAccess.push(root);
+    }
+    logWorkflowStep(workflowId, "rescan.popup.queued", { rescanned: roots.length - needAccess.length, needAccess: needAccess.length });
+    if (needAccess.length > 0) {
+      const names = needAccess.map((r) => `"${r.name}"`).join(", ");
+      progressEl.textContent = `${names} need${needAccess.length === 1 ? "s" : ""} folder access. Use ${needAccess.length === 1 ? "its" : "each one's"} Rescan button.`;
+    }
+  });
+}
+
+/** The stored root whose handle points at the same folder, if any */
+async function findRootForHandle(handle: FileSystemDirectoryHandle): Promise<IndexRoot | undefined> {
+  for (const root of await getRoots()) {
+    const stored = await getDirectoryHandle(root.id);
+    if (stored && await stored.isSameEntry(handle)) return root;
+  }
+  return undefined;
+}
+
+/**
+ * Incremental rescan of one root. Asks for folder access again if it has
+ * lapsed; roots indexed from a page have no handle yet, so the user picks
+ * the folder once.
+ */
+async function rescanRoot(root: IndexRoot, workflowId: string) {
+  try {
+    logWorkflowStep(workflowId, "service.vectordb.getDirectoryHandle.start", { rootId: root.id });
+    let dirHandle = await getDirectoryHandle(root.id);
+    if (!dirHandle) {
+      logWorkflowStep(workflowId, "rescan.popup.no_directory_handle", { rootId: root.id });
+      progressEl.textContent = `Select the "${root.name}" folder to rescan it.`;
+      const picked = await (window as any).showDirectoryPicker({ mode: "read" }) as FileSystemDirectoryHandle;
+      if (!await confirmPickedFolder(root, picked, workflowId)) return;
+      dirHandle = picked;
+    }
+    // Check permission
+    const perm = await (dirHandle as any).queryPermission({ mode: "read" });
+    logWorkflowStep(workflowId, "service.filesystem.queryPermission.done", { rootId: root.id, permission: perm });
+    if (perm !== "granted") {
+      const requested = await (dirHandle as any).requestPermission({ mode: "read" });
+      logWorkflowStep(workflowId, "service.filesystem.requestPermission.done", { permission: requested });
+      if (requested !== "granted") {
+        progressEl.textContent = `Permission denied for "${root.name}". Please add the folder again.`;
         return;
       }
-      // Check permission
-      const perm = await (dirHandle as any).queryPermission({ mode: "read" });
-      logWorkflowStep(workflowId, "service.filesystem.queryPermission.done", { permission: perm });
-      if (perm !== "granted") {
-        const requested = await (dirHandle as any).requestPermission({ mode: "read" });
-        logWorkflowStep(workflowId, "service.filesystem.requestPermission.done", { permission: requested });
-        if (requested !== "granted") {
-          progressEl.textContent = "Permission denied. Please select folder again.";
-          return;
-        }
-      }
-      await buildIndex(dirHandle, true, workflowId);
-    } catch (err: any) {
-      logWorkflowError(workflowId, "rescan.popup.failed", err);
-      progressEl.textContent = "Error during rescan. Try selecting folder again.";
-      scanBtn.disabled = false;
-      if (rescanBtn) rescanBtn.disabled = false;
     }
-  });
+    await buildIndex(root, dirHandle, true, workflowId);
+  } catch (err: any) {
+    if (err.name === "AbortError") {
+      logWorkflowStep(workflowId, "rescan.popup.cancelled", { rootId: root.id });
+      return;
+    }
+    logWorkflowError(workflowId, "rescan.popup.failed", err);
+    progressEl.textContent = `Error rescanning "${root.name}". Try adding the folder again.`;
+    setScanButtonsDisabled(false);
+  }
+}
+
+/**
+ * A rescan makes the root match the picked folder, deleting whatever isn't
+ * in it — so refuse another root's folder and confirm a name mismatch.
+ */
+async function confirmPickedFolder(root: IndexRoot, picked: FileSystemDirectoryHandle, workflowId: string): Promise<boolean> {
+  const owner = await findRootForHandle(picked);
+  if (owner && owner.id !== root.id) {
+    logWorkflowStep(workflowId, "rescan.popup.folder_of_other_root", { rootId: root.id, ownerId: owner.id });
+    progressEl.textContent = `That folder is already indexed as "${owner.name}". Pick the "${root.name}" folder.`;
+    return false;
+  }
+  if (picked.name === root.name) return true;
+  const confirmed = window.confirm(
+    `You picked "${picked.name}", not "${root.name}". Rescanning replaces the files indexed for "${root.name}" with this folder's. Continue?`
+  );
+  logWorkflowStep(workflowId, "rescan.popup.name_mismatch", { rootId: root.id, confirmed });
+  if (!confirmed) progressEl.textContent = `Rescan of "${root.name}" cancelled.`;
+  return confirmed;
+}
+
+function setScanButtonsDisabled(disabled: boolean) {
+  scanBtn.disabled = disabled;
+  if (rescanBtn) rescanBtn.disabled = disabled;
+  rootListEl?.querySelectorAll("button").forEach((b) => (b.disabled = disabled));
 }
 
 if (clearBtn) {
@@ -105,8 +215,7 @@ if (clearBtn) {
     const workflowId = createWorkflowId("clear-popup");
     logWorkflowStep(workflowId, "clear.popup.click");
 
-    scanBtn.disabled = true;
-    if (rescanBtn) rescanBtn.disabled = true;
+    setScanButtonsDisabled(true);
     clearBtn.disabled = true;
     progressEl.textContent = "Clearing scanned data...";
 
@@ -123,288 +232,206 @@ if (clearBtn) {
       const total = await getCount();
       countEl.textContent = String(total);
       fileListEl.innerHTML = "";
-      await showLastScanTime();
+      await renderRoots();
       progressEl.textContent = "Scanned data cleared.";
+      await loadRankingStatus();
       logWorkflowStep(workflowId, "clear.popup.done", { remainingIndexedCount: total });
     } catch (err) {
       logWorkflowError(workflowId, "clear.popup.failed", err);
       progressEl.textContent = "Failed to clear scanned data.";
     } finally {
-      scanBtn.disabled = false;
-      if (rescanBtn) rescanBtn.disabled = false;
+      setScanButtonsDisabled(false);
       clearBtn.disabled = false;
     }
   });
 }
 
-// Auto-rescan config
-if (autoRescanCheckbox) {
-  autoRescanCheckbox.addEventListener("change", saveCurrentRescanConfig);
-}
-if (rescanIntervalSelect) {
-  rescanIntervalSelect.addEventListener("change", saveCurrentRescanConfig);
+// Fill all: ask the active tab's content script to open its review sheet
+if (fillAllBtn) {
+  fillAllBtn.addEventListener("click", async () => {
+    const workflowId = createWorkflowId("fill-all-popup");
+    logWorkflowStep(workflowId, "fill_all.popup.click");
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) {
+      progressEl.textContent = "No active tab.";
+      return;
+    }
+    progressEl.textContent = "Looking for upload fields\u2026";
+    chrome.tabs.sendMessage(
+      tab.id,
+      { type: "FILL_ALL_ZONES", workflowId },
+      { frameId: 0 },
+      (resp?: FillAllZonesResponse) => {
+        if (chrome.runtime.lastError || !resp) {
+          logWorkflowStep(workflowId, "fill_all.popup.no_content_script");
+          progressEl.textContent = "xUpload can't run on this page. Try refreshing it.";
+          return;
+        }
+        if (!resp.ok) {
+          progressEl.textContent = resp.error || "Could not fill upload fields.";
+          return;
+        }
+        if (resp.zoneCount === 0) {
+          progressEl.textContent = "No upload fields found on this page.";
+          return;
+        }
+        // The review sheet is on the page now — get out of the way
+        window.close();
+      },
+    );
+  });
 }
 
-interface DocEntry {
-  path: string;
-  name: string;
-  type: string;
-  size: number;
-  lastModified: number;
-  text: string;
+/** Progress line for an indexing event */
+function describeIndexEvent(event: IndexEvent): string | null {
+  switch (event.phase) {
+    case "walk":
+      return `Found ${event.discovered} files. Checking for changes...`;
+    case "read":
+      return `Reading files... ${event.done}/${event.total}${event.unchanged > 0 ? ` (${event.unchanged} unchanged)` : ""}`;
+    case "embed":
+      return `Embedding... ${event.done}/${event.total}`;
+    case "write":
+      return `Indexing... ${event.done}/${event.total}`;
+    default:
+      return null;
+  }
 }
 
 /**
- * Build or incrementally update the file index.
- * @param incremental - if true, only process new/modified files
+ * Build or incrementally update one root's part of the index. The scan runs
+ * as a background job (indexJobs.ts), so it carries on if the popup closes;
+ * its progress comes back as INDEX_JOB_PROGRESS.
+ * @param incremental - if true, only read new/modified files
  */
 async function buildIndex(
+  root: IndexRoot,
   dirHandle: FileSystemDirectoryHandle,
   incremental: boolean,
   workflowId: string = createWorkflowId(incremental ? "rescan-popup" : "scan-popup")
 ) {
-  const servicesCalled = new Set<string>([
-    "filesystem.collectFiles",
-    "vectordb.saveDirectoryHandle",
-    "embeddings.extractText",
-    "embeddings.tokenize",
-    "embeddings.buildVocabulary",
-    "embeddings.vectorize",
-    "vectordb.upsert",
-    "vectordb.saveVocab",
-    "chrome.storage.local.set:vocab",
-    "chrome.runtime.sendMessage:VOCAB_UPDATED",
-    "vectordb.getCount",
-  ]);
-
-  logWorkflowStep(workflowId, "scan.popup.start", { incremental });
-
-  scanBtn.disabled = true;
-  if (rescanBtn) rescanBtn.disabled = true;
-  progressEl.textContent = "Scanning files...";
+  logWorkflowStep(workflowId, "scan.popup.start", { incremental, rootId: root.id });
+  progressEl.textContent = `Scanning "${root.name}"...`;
 
   try {
-    const entries = await collectFiles(dirHandle, "");
-    progressEl.textContent = `Found ${entries.length} files. Checking for changes...`;
-    logWorkflowStep(workflowId, "service.filesystem.collectFiles.done", {
-      discoveredFiles: entries.length,
-    });
-
-    await saveDirectoryHandle(dirHandle);
+    await saveDirectoryHandle(root.id, dirHandle);
     logWorkflowStep(workflowId, "service.vectordb.saveDirectoryHandle.done");
 
-    const existingRecords = incremental ? await getAll() : [];
-    const existingMap = new Map(existingRecords.map((r) => [r.id, r]));
-    const currentPaths = new Set<string>();
-    if (incremental) {
-      servicesCalled.add("vectordb.getAll");
-      servicesCalled.add("vectordb.deleteById");
-    }
-
-    const docs: DocEntry[] = [];
-    const unchangedDocs: DocEntry[] = [];
-    let skipped = 0;
-    let unreadable = 0;
-
-    for (let i = 0; i < entries.length; i++) {
-      const { fileHandle, path } = entries[i];
-      currentPaths.add(path);
-
-      try {
-        const file = await fileHandle.getFile();
-
-        if (incremental) {
-          const existing = existingMap.get(path);
-          if (
-            existing &&
-            existing.size === file.size &&
-            existing.lastModified === file.lastModified
-          ) {
-            unchangedDocs.push({
-              path,
-              name: file.name,
-              type: file.type || guessType(file.name),
-              size: file.size,
-              lastModified: file.lastModified,
-              text: existing.textPreview,
-            });
-            skipped++;
-            continue;
-          }
-        }
-
-        const text = await extractText(file, path);
-        docs.push({
-          path,
-          name: file.name,
-          type: file.type || guessType(file.name),
-          size: file.size,
-          lastModified: file.lastModified,
-          text,
-        });
-      } catch {
-        unreadable++;
-      }
-
-      if (i % 10 === 0) {
-        progressEl.textContent = `Reading files... ${i + 1}/${entries.length}${skipped > 0 ? ` (${skipped} unchanged)` : ""}`;
-      }
-    }
-
-    logWorkflowStep(workflowId, "scan.phase.read.done", {
-      discovered: entries.length,
-      toProcess: docs.length,
-      unchanged: skipped,
-      unreadable,
-    });
-
-    let deleted = 0;
-    if (incremental) {
-      for (const id of existingMap.keys()) {
-        if (!currentPaths.has(id)) {
-          await deleteById(id);
-          deleted++;
-        }
-      }
-      logWorkflowStep(workflowId, "scan.phase.deleted.done", { deleted });
-    }
-
-    if (incremental && docs.length === 0 && deleted === 0) {
-      progressEl.textContent = `No changes detected. ${skipped} files up to date.`;
-      await updateLastScanTimestamp();
-      logWorkflowStep(workflowId, "scan.popup.no_changes", { unchanged: skipped });
-      logWorkflowStep(workflowId, "scan.popup.services_called", Array.from(servicesCalled));
-      return;
-    }
-
-    progressEl.textContent = `Building vectors... (${docs.length} new/modified, ${skipped} unchanged, ${deleted} deleted)`;
-
-    const allDocs = [...docs, ...unchangedDocs];
-    const allTokens = allDocs.map((d) => tokenize(d.text));
-    buildVocabulary(allTokens);
-    logWorkflowStep(workflowId, "scan.phase.vocab.done", {
-      vocabDocs: allDocs.length,
-    });
-
-    if (!incremental) {
-      await clearAll();
-      servicesCalled.add("vectordb.clearAll");
-      logWorkflowStep(workflowId, "service.vectordb.clearAll.done");
-    }
-
-    for (let i = 0; i < docs.length; i++) {
-      const d = docs[i];
-      const vec = vectorize(allTokens[i]);
-      const record: VectorRecord = {
-        id: d.path,
-        name: d.name,
-        path: d.path,
-        type: d.type,
-        size: d.size,
-        lastModified: d.lastModified,
-        vector: vec,
-        textPreview: d.text.slice(0, 500),
-      };
-      await upsert(record);
-
-      if (i % 10 === 0) {
-        progressEl.textContent = `Indexing... ${i + 1}/${docs.length}`;
-      }
-    }
-
-    if (incremental && unchangedDocs.length > 0) {
-      progressEl.textContent = "Updating vectors for unchanged files...";
-      for (let i = 0; i < unchangedDocs.length; i++) {
-        const d = unchangedDocs[i];
-        const tokenIdx = docs.length + i;
-        const vec = vectorize(allTokens[tokenIdx]);
-        const existing = existingMap.get(d.path)!;
-        await upsert({ ...existing, vector: vec });
-      }
-    }
-
-    logWorkflowStep(workflowId, "scan.phase.index.done", {
-      updated: docs.length,
-      revectorized: unchangedDocs.length,
-    });
-
-    const vocab = exportVocab();
-    await saveVocab(vocab);
-    chrome.storage.local.set({ vocab }, () => {
-      chrome.runtime.sendMessage({ type: "VOCAB_UPDATED" }, () => { void chrome.runtime.lastError; });
-    });
-    logWorkflowStep(workflowId, "scan.phase.persist.done", {
-      vocabTerms: vocab.terms.length,
-    });
-
-    await updateLastScanTimestamp();
-
-    const total = await getCount();
-    countEl.textContent = String(total);
-    progressEl.textContent = incremental
-      ? `Done! ${docs.length} updated, ${deleted} removed, ${total} total.`
-      : `Done! ${total} files indexed.`;
-
-    showFiles(allDocs);
-
-    logWorkflowStep(workflowId, "scan.popup.services_called", Array.from(servicesCalled));
-    logWorkflowStep(workflowId, "scan.popup.done", {
-      totalIndexed: total,
-      updated: docs.length,
-      unchanged: skipped,
-      deleted,
-      unreadable,
-    });
+    const req: StartIndexJobRequest = { type: "START_INDEX_JOB", rootId: root.id, incremental, workflowId };
+    const resp = await chrome.runtime.sendMessage(req) as IndexJobResponse | undefined;
+    if (!resp?.ok || !resp.job) throw new Error(resp?.error || "Couldn't start the scan.");
+    logWorkflowStep(workflowId, "scan.popup.job_started", { jobId: resp.job.id });
+    await showJob(resp.job);
   } catch (err) {
     logWorkflowError(workflowId, "scan.popup.failed", err);
     progressEl.textContent = incremental
       ? "Error during rescan. Try selecting folder again."
       : "Error scanning folder";
-  } finally {
-    scanBtn.disabled = false;
-    if (rescanBtn) rescanBtn.disabled = false;
   }
 }
 
-interface FileEntry {
-  fileHandle: FileSystemFileHandle;
-  path: string;
+// ---- Indexing jobs ----
+
+/** The job whose progress is shown, so its controls act on it */
+let shownJob: IndexJob | null = null;
+
+/** Show a job's state in the progress line, with pause/resume and cancel while it's unfinished */
+async function showJob(job: IndexJob) {
+  shownJob = job;
+  const name = `"${job.rootName}"`;
+  switch (job.state) {
+    case "queued":
+      progressEl.textContent = `Waiting to scan ${name}...`;
+      break;
+    case "running":
+      progressEl.textContent = (job.progress && describeIndexEvent(job.progress)) || `Scanning ${name}...`;
+      break;
+    case "paused":
+      progressEl.textContent = job.error ? `Paused ${name}. ${job.error}` : `Paused scanning ${name}.`;
+      if (job.error) await renderRoots();
+      break;
+    case "failed":
+      progressEl.textContent = `Error scanning ${name}: ${job.error || "unknown error"}`;
+      await renderRoots();
+      break;
+    case "cancelled":
+      progressEl.textContent = `Cancelled scanning ${name}. Its index is unchanged.`;
+      break;
+    case "done":
+      if (job.result) await showJobResult(job, job.result);
+      break;
+  }
+
+  if (jobControlsEl) jobControlsEl.hidden = job.state === "done" || job.state === "cancelled";
+  if (jobPauseBtn) jobPauseBtn.textContent = job.state === "paused" || job.state === "failed" ? "Resume" : "Pause";
+  if (jobCancelBtn) jobCancelBtn.hidden = job.state === "failed";
 }
 
-async function collectFiles(
-  dirHandle: FileSystemDirectoryHandle,
-  basePath: string
-): Promise<FileEntry[]> {
-  const result: FileEntry[] = [];
-  for await (const entry of (dirHandle as any).values()) {
-    const entryPath = basePath ? `${basePath}/${entry.name}` : entry.name;
-    if (entry.kind === "file") {
-      result.push({ fileHandle: entry, path: entryPath });
-    } else if (entry.kind === "directory" && !entry.name.startsWith(".")) {
-      const sub = await collectFiles(entry, entryPath);
-      result.push(...sub);
+async function showJobResult(job: IndexJob, result: IndexScanResult) {
+  countEl.textContent = String(result.total);
+  if (result.updated === 0 && result.deleted === 0 && result.embedded === 0 && result.embedFailures.length === 0) {
+    progressEl.textContent = `No changes detected. ${result.unchanged} files up to date.`;
+  } else {
+    progressEl.textContent = job.incremental
+      ? `Done! "${job.rootName}": ${result.updated} updated, ${result.deleted} removed, ${result.total} total.`
+      : `Done! "${job.rootName}": ${result.discovered} files indexed, ${result.total} total.`;
+  }
+  if (result.embedFailures.length > 0) {
+    progressEl.textContent += ` ${result.embedFailures.length} couldn't be embedded and will match by keywords only.`;
+  }
+  showFiles(await getRecordsByRoot(job.rootId), result.embedFailures);
+  await renderRoots();
+  void loadEmbedStatus();
+}
+
+/** Pick up a scan that was running (or paused) when the popup was last closed */
+async function loadIndexJobs() {
+  const { jobs } = await chrome.runtime.sendMessage({ type: "GET_INDEX_JOBS" }) as GetIndexJobsResponse;
+  const active = jobs.find((j) => j.state === "running")
+    || jobs.find((j) => j.state === "queued" || j.state === "paused");
+  if (active) await showJob(active);
+}
+
+async function sendJobAction(job: IndexJob, action: IndexJobAction) {
+  const req: IndexJobControlRequest = { type: "INDEX_JOB_CONTROL", jobId: job.id, action };
+  const resp = await chrome.runtime.sendMessage(req) as IndexJobResponse | undefined;
+  if (!resp?.ok) progressEl.textContent = resp?.error || "Couldn't update the scan.";
+}
+
+/** Resuming may need folder access again — ask now, while there's a click to ask from */
+async function resumeJob(job: IndexJob) {
+  const dirHandle = await getDirectoryHandle(job.rootId);
+  if (dirHandle && await (dirHandle as any).queryPermission({ mode: "read" }) !== "granted") {
+    const requested = await (dirHandle as any).requestPermission({ mode: "read" });
+    if (requested !== "granted") {
+      progressEl.textContent = `Permission denied for "${job.rootName}". Please add the folder again.`;
+      return;
     }
+    await renderRoots();
   }
-  return result;
-}
-
-function guessType(name: string): string {
-  const ext = name.split(".").pop()?.toLowerCase() || "";
-  const map: Record<string, string> = {
-    pdf: "application/pdf",
-    jpg: "image/jpeg", jpeg: "image/jpeg",
-    png: "image/png", gif: "image/gif", webp: "image/webp",
-    doc: "application/msword",
-    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    xls: "application/vnd.ms-excel",
-    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    txt: "text/plain", csv: "text/csv",
-  };
-  return map[ext] || "application/octet-stream";
+  await sendJobAction(job, "resume");
 }
 
-function showFiles(docs: { path: string; lastModified: number }[]) {
+/** One button: pauses the shown job, or resumes it once it's paused or failed */
+jobPauseBtn?.addEventListener("click", () => {
+  if (!shownJob) return;
+  if (shownJob.state === "paused" || shownJob.state === "failed") void resumeJob(shownJob);
+  else void sendJobAction(shownJob, "pause");
+});
+
+jobCancelBtn?.addEventListener("click", () => {
+  if (shownJob) void sendJobAction(shownJob, "cancel");
+});
+
+function showFiles(docs: { path: string; lastModified: number }[], embedFailures: EmbedFailure[] = []) {
   fileListEl.innerHTML = "";
+  for (const f of embedFailures) {
+    const div = document.createElement("div");
+    div.className = "embed-failed";
+    div.textContent = `\u26A0 ${f.path} \u2014 not embedded`;
+    div.title = f.error;
+    fileListEl.appendChild(div);
+  }
   const sorted = [...docs].sort((a, b) => b.lastModified - a.lastModified);
   for (const f of sorted.slice(0, 50)) {
     const div = document.createElement("div");
@@ -418,63 +445,360 @@ function showFiles(docs: { path: string; lastModified: number }[]) {
   }
 }
 
-// ---- Rescan config ----
+// ---- Index roots ----
+
+const RESCAN_INTERVALS = [5, 10, 30, 60];
+
+const PERMISSION_LABELS: Record<RootPermission, string> = {
+  granted: "",
+  prompt: "needs access",
+  denied: "access denied",
+  missing: "not linked",
+};
+
+const SCAN_TRIGGER_LABELS: Record<ScanTrigger, string> = {
+  manual: "Scanned",
+  alarm: "Auto-rescanned",
+  page: "Scanned from a page",
+};
+
+/** One line for a root's last scan, with the details in `title` */
+function describeScanReport(report: ScanReport): { text: string; title: string } {
+  const when = `${SCAN_TRIGGER_LABELS[report.trigger]} ${formatAgo(report.finishedAt)}`;
+  const seconds = `${(report.durationMs / 1000).toFixed(1)}s`;
+  if (!report.result) {
+    return { text: `${when}: failed`, title: report.error || "Unknown error" };
+  }
+  const r = report.result;
+  const details = [
+    `${r.discovered} files found, ${r.excluded} skipped by rules`,
+    `${r.updated} new or changed, ${r.unchanged} unchanged, ${r.deleted} removed`,
+    r.unreadable > 0 ? `${r.unreadable} couldn't be read` : "",
+    r.embedFailures.length > 0
+      ? `Not embedded: ${r.embedFailures.slice(0, 5).map((f) => f.path).join(", ")}${r.embedFailures.length > 5 ? ", \u2026" : ""}`
+      : "",
+    `Took ${seconds}`,
+  ];
+  const problems = r.unreadable + r.embedFailures.length;
+  return {
+    text: `${when}: ${r.updated} updated, ${r.deleted} removed${problems > 0 ? `, ${problems} with errors` : ""} \u00B7 ${seconds}`,
+    title: details.filter(Boolean).join("\n"),
+  };
+}
 
-async function loadRescanConfig() {
-  const config = await getRescanConfig();
-  if (autoRescanCheckbox) autoRescanCheckbox.checked = config.autoRescanEnabled;
-  if (rescanIntervalSelect) rescanIntervalSelect.value = String(config.rescanIntervalMin);
+/** Patch a root's stored settings — re-read first so rows don't overwrite each other's changes */
+async function updateRoot(id: string, patch: Partial<IndexRoot>) {
+  const current = await getRoot(id);
+  if (!current) return;
+  await saveRoot({ ...current, ...patch });
+  notifyRootsChanged();
 }
 
-async function saveCurrentRescanConfig() {
-  const config = await getRescanConfig();
-  config.autoRescanEnabled = autoRescanCheckbox?.checked ?? true;
-  config.rescanIntervalMin = parseInt(rescanIntervalSelect?.value ?? "30", 10);
-  await saveRescanConfig(config);
+function notifyRootsChanged() {
   chrome.runtime.sendMessage({ type: "RESCAN_CONFIG_UPDATED" }, () => { void chrome.runtime.lastError; });
 }
 
-async function updateLastScanTimestamp() {
-  const config = await getRescanConfig();
-  config.lastScanTimestamp = Date.now();
-  await saveRescanConfig(config);
-  showLastScanTime();
+/** One row per root: enable toggle, name, access status, rescan schedule, rescan and remove buttons */
+async function renderRoots() {
+  await showLastScanTime();
+  if (!rootListEl) return;
+  const roots = await getRoots();
+  const permissions = await Promise.all(roots.map((r) => getRootPermission(r.id)));
+  rootListEl.innerHTML = "";
+  if (roots.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "root-empty";
+    empty.textContent = "No folders yet. Use 'Add folder' to index one.";
+    rootListEl.appendChild(empty);
+    return;
+  }
+
+  roots.forEach((root, i) => {
+    const row = document.createElement("div");
+    row.className = "config-row root-row";
+
+    const label = document.createElement("label");
+    label.className = "root-name";
+    label.title = root.enabled ? "Used for recommendations" : "Kept indexed, not recommended";
+    const enabled = document.createElement("input");
+    enabled.type = "checkbox";
+    enabled.checked = root.enabled;
+    enabled.addEventListener("change", async () => {
+      await updateRoot(root.id, { enabled: enabled.checked });
+      await renderRoots();
+    });
+    const name = document.createElement("span");
+    name.textContent = root.name;
+    label.append(enabled, name);
+    row.appendChild(label);
+
+    const status = PERMISSION_LABELS[permissions[i]];
+    if (status) {
+      const badge = document.createElement("span");
+      badge.className = "root-permission";
+      badge.textContent = status;
+      row.appendChild(badge);
+    }
+
+    const interval = document.createElement("select");
+    interval.title = "Auto-rescan";
+    interval.add(new Option("Manual", "0"));
+    for (const min of RESCAN_INTERVALS) {
+      interval.add(new Option(min < 60 ? `${min} min` : `${min / 60} h`, String(min)));
+    }
+    interval.value = root.autoRescanEnabled ? String(root.rescanIntervalMin) : "0";
+    interval.addEventListener("change", async () => {
+      const min = parseInt(interval.value, 10);
+      await updateRoot(root.id, min > 0 ? { autoRescanEnabled: true, rescanIntervalMin: min } : { autoRescanEnabled: false });
+    });
+    row.appendChild(interval);
+
+    const rescan = document.createElement("button");
+    rescan.className = "root-btn";
+    rescan.textContent = "\u21BB";
+    rescan.title = `Rescan "${root.name}"`;
+    rescan.setAttribute("aria-label", rescan.title);
+    rescan.addEventListener("click", async () => {
+      await rescanRoot(root, createWorkflowId("rescan-root-popup"));
+      await renderRoots();
+    });
+    row.appendChild(rescan);
+
+    const remove = document.createElement("button");
+    remove.className = "root-btn";
+    remove.textContent = "\u2715";
+    remove.title = `Remove "${root.name}" from xUpload`;
+    remove.setAttribute("aria-label", remove.title);
+    remove.addEventListener("click", async () => {
+      const confirmed = window.confirm(
+        `Remove "${root.name}" and its indexed files from xUpload? Your actual files are not touched.`
+      );
+      if (!confirmed) return;
+      // The background cancels the root's jobs and removes it between index writes
+      const removeReq: RemoveRootRequest = { type: "REMOVE_ROOT", rootId: root.id };
+      const resp = await chrome.runtime.sendMessage(removeReq) as RemoveRootResponse | undefined;
+      if (!resp?.ok) {
+        progressEl.textContent = `Couldn't remove "${root.name}": ${resp?.error || "no response"}`;
+        return;
+      }
+      notifyRootsChanged();
+      countEl.textContent = String(await getCount());
+      progressEl.textContent = `Removed "${root.name}".`;
+      await renderRoots();
+    });
+    row.appendChild(remove);
+
+    rootListEl.appendChild(row);
+
+    if (root.lastReport) {
+      const { text, title } = describeScanReport(root.lastReport);
+      const report = document.createElement("div");
+      report.className = "root-report";
+      if (!root.lastReport.result || root.lastReport.result.unreadable + root.lastReport.result.embedFailures.length > 0) {
+        report.classList.add("root-report-error");
+      }
+      report.textContent = text;
+      report.title = title;
+      rootListEl.appendChild(report);
+    }
+  });
+}
+
+// ---- Indexing rules ----
+
+function splitLines(text: string): string[] {
+  return text.split("\n").map((l) => l.trim()).filter(Boolean);
+}
+
+async function loadIndexRules() {
+  const rules = await getIndexRules();
+  if (ruleExcludeInput) ruleExcludeInput.value = rules.exclude.join("\n");
+  if (ruleIncludeInput) ruleIncludeInput.value = rules.include.join("\n");
+  if (ruleExtensionsInput) ruleExtensionsInput.value = rules.extensions.join(", ");
+  if (ruleMaxSizeInput) ruleMaxSizeInput.value = String(rules.maxFileSizeMB);
+  if (ruleIgnoreFilesCheckbox) ruleIgnoreFilesCheckbox.checked = rules.useIgnoreFiles;
 }
 
+async function saveCurrentIndexRules() {
+  const maxSize = parseFloat(ruleMaxSizeInput?.value || "0");
+  const rules: IndexRules = {
+    exclude: splitLines(ruleExcludeInput?.value || ""),
+    include: splitLines(ruleIncludeInput?.value || ""),
+    extensions: (ruleExtensionsInput?.value || "")
+      .split(/[\s,]+/)
+      .map((e) => e.replace(/^\./, "").toLowerCase())
+      .filter(Boolean),
+    maxFileSizeMB: maxSize > 0 ? maxSize : 0,
+    useIgnoreFiles: ruleIgnoreFilesCheckbox?.checked ?? true,
+  };
+  await saveIndexRules(rules);
+}
+
+for (const input of [ruleExcludeInput, ruleIncludeInput, ruleExtensionsInput, ruleMaxSizeInput, ruleIgnoreFilesCheckbox]) {
+  input?.addEventListener("change", saveCurrentIndexRules);
+}
+
+/** Most recent scan across all roots */
 async function showLastScanTime() {
   if (!lastScanEl) return;
-  const config = await getRescanConfig();
-  if (config.lastScanTimestamp === 0) {
+  const lastScan = Math.max(0, ...(await getRoots()).map((r) => r.lastScanTimestamp));
+  if (lastScan === 0) {
     lastScanEl.textContent = "Never scanned";
     return;
   }
-  const ago = Date.now() - config.lastScanTimestamp;
-  const mins = Math.floor(ago / 60_000);
-  if (mins < 1) lastScanEl.textContent = "Last scan: just now";
-  else if (mins < 60) lastScanEl.textContent = `Last scan: ${mins}m ago`;
-  else lastScanEl.textContent = `Last scan: ${Math.floor(mins / 60)}h ${mins % 60}m ago`;
+  lastScanEl.textContent = `Last scan: ${formatAgo(lastScan)}`;
+}
+
+function formatAgo(timestamp: number): string {
+  const mins = Math.floor((Date.now() - timestamp) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  if (mins < 24 * 60) return `${Math.floor(mins / 60)}h ${mins % 60}m ago`;
+  return `${Math.floor(mins / (24 * 60))}d ago`;
 }
 
 // ---- API config ----
 
 function loadApiConfig() {
   chrome.storage.local.get("xupload_config", (data) => {
-    const cfg = data.xupload_config || { apiKey: "", mode: "tfidf" };
+    const cfg: XUploadConfig = data.xupload_config || { apiKey: "", mode: "tfidf" };
     if (apiKeyInput) apiKeyInput.value = cfg.apiKey || "";
     if (matchModeSelect) matchModeSelect.value = cfg.mode || "tfidf";
+    if (fusionSelect) fusionSelect.value = cfg.fusion || "weighted";
+    if (providerSelect) providerSelect.value = cfg.provider || "gemini";
+    if (baseUrlInput) baseUrlInput.value = cfg.baseUrl || "";
+    if (embeddingModelInput) embeddingModelInput.value = cfg.embeddingModel || "";
+    if (visionModelInput) visionModelInput.value = cfg.visionModel || "";
+    if (dimensionInput) dimensionInput.value = cfg.dimension ? String(cfg.dimension) : "";
+    showProviderDefaults();
+    showModeHint();
   });
 }
 
+/** Local mode fetches its model from the Hugging Face Hub on first use — say so before it does */
+function showModeHint() {
+  if (modeHintEl) modeHintEl.hidden = matchModeSelect?.value !== "local";
+}
+
+/** Show the selected provider's defaults as placeholders for the empty fields */
+function showProviderDefaults() {
+  const kind = (providerSelect?.value || "gemini") as EmbeddingProviderKind;
+  const defaults = PROVIDER_DEFAULTS[kind];
+  if (baseUrlInput) baseUrlInput.placeholder = defaults.baseUrl;
+  if (embeddingModelInput) embeddingModelInput.placeholder = defaults.embeddingModel;
+  if (visionModelInput) visionModelInput.placeholder = defaults.visionModel;
+  if (apiKeyInput) apiKeyInput.placeholder = kind === "gemini" ? "Enter key..." : "Optional";
+}
+
 function saveApiConfig() {
-  const cfg = {
+  const dimension = parseInt(dimensionInput?.value || "", 10);
+  const cfg: XUploadConfig = {
     apiKey: apiKeyInput?.value || "",
-    mode: matchModeSelect?.value || "tfidf",
+    mode: (matchModeSelect?.value || "tfidf") as XUploadConfig["mode"],
+    fusion: (fusionSelect?.value || "weighted") as XUploadConfig["fusion"],
+    provider: (providerSelect?.value || "gemini") as EmbeddingProviderKind,
+    baseUrl: baseUrlInput?.value.trim() || undefined,
+    embeddingModel: embeddingModelInput?.value.trim() || undefined,
+    visionModel: visionModelInput?.value.trim() || undefined,
+    dimension: dimension > 0 ? dimension : undefined,
   };
-  chrome.storage.local.set({ xupload_config: cfg });
+  chrome.storage.local.set({ xupload_config: cfg }, () => void loadEmbedStatus());
+  return cfg;
 }
 
+/**
+ * Self-hosted servers usually don't send CORS headers, so the extension needs
+ * host access to them. Requested when the provider or URL changes (a user
+ * gesture, which permissions.request requires).
+ */
+async function requestProviderAccess(cfg: XUploadConfig) {
+  if ((cfg.provider || "gemini") === "gemini") return;
+  const origin = providerOrigin(cfg);
+  if (!origin) return;
+  try {
+    const granted = await chrome.permissions.request({ origins: [`${origin}/*`] });
+    if (!granted) progressEl.textContent = `xUpload can't reach ${origin} without access.`;
+  } catch (err) {
+    console.warn("[xUpload] Host permission request failed:", err);
+  }
+}
+
+// ---- Dense index status ----
+
+function showEmbedStatus(status: ReembedStatus) {
+  if (!embedStatusEl) return;
+  if (!status.model) {
+    embedStatusEl.textContent = "";
+  } else if (status.running) {
+    embedStatusEl.textContent = `Re-embedding for ${status.model}... ${status.done}/${status.total}`;
+  } else if (status.stale > 0) {
+    embedStatusEl.textContent = status.error
+      ? `${status.stale} files not embedded for ${status.model}: ${status.error}`
+      : `${status.stale} files waiting to be embedded for ${status.model}`;
+  } else {
+    embedStatusEl.textContent = `Embeddings: ${status.model}`;
+  }
+}
+
+async function loadEmbedStatus() {
+  try {
+    showEmbedStatus(await chrome.runtime.sendMessage({ type: "GET_REEMBED_STATUS" }) as ReembedStatus);
+  } catch {
+    if (embedStatusEl) embedStatusEl.textContent = "";
+  }
+}
+
+chrome.runtime.onMessage.addListener((msg) => {
+  if (msg?.type === "REEMBED_PROGRESS") showEmbedStatus((msg as ReembedProgressMessage).status);
+  if (msg?.type === "INDEX_JOB_PROGRESS") void showJob((msg as IndexJobProgressMessage).job);
+});
+
 if (apiKeyInput) apiKeyInput.addEventListener("change", saveApiConfig);
-if (matchModeSelect) matchModeSelect.addEventListener("change", saveApiConfig);
+if (matchModeSelect) {
+  matchModeSelect.addEventListener("change", () => {
+    showModeHint();
+    saveApiConfig();
+  });
+}
+if (fusionSelect) fusionSelect.addEventListener("change", saveApiConfig);
+for (const input of [embeddingModelInput, visionModelInput, dimensionInput]) {
+  input?.addEventListener("change", saveApiConfig);
+}
+for (const input of [providerSelect, baseUrlInput]) {
+  input?.addEventListener("change", () => {
+    showProviderDefaults();
+    void requestProviderAccess(saveApiConfig());
+  });
+}
+
+// ---- Learned ranking ----
+
+async function loadRankingStatus() {
+  if (!rankingStatusEl) return;
+  try {
+    const status = await chrome.runtime.sendMessage({ type: "GET_RANKING_STATUS" }) as RankingStatusResponse;
+    rankingStatusEl.textContent = status.model
+      ? `Ranking: learned from ${status.model.trainedOn} picks`
+      : `Ranking: default weights (${status.labelledEvents}/${status.minEvents} picks to personalize)`;
+    if (resetRankingBtn) resetRankingBtn.disabled = status.labelledEvents === 0 && !status.model;
+  } catch {
+    rankingStatusEl.textContent = "Ranking: default weights";
+  }
+}
+
+if (resetRankingBtn) {
+  resetRankingBtn.addEventListener("click", async () => {
+    const confirmed = window.confirm(
+      "Reset learned ranking? xUpload forgets which recommendations you picked and goes back to the default weights."
+    );
+    if (!confirmed) return;
+    const workflowId = createWorkflowId("ranking-reset-popup");
+    logWorkflowStep(workflowId, "ranking.reset.popup.click");
+    const resp = await chrome.runtime.sendMessage({ type: "RESET_RANKING_MODEL" });
+    progressEl.textContent = resp?.ok ? "Learned ranking reset." : "Failed to reset learned ranking.";
+    await loadRankingStatus();
+  });
+}
 
 // ---- Enable / disable toggle ----
 
@@ -0,0 +1,165 @@
+/**
+ * Ranking weights and score fusion.
+ *
+ * handleMatch scores each candidate from a set of signals (dense embedding
+ * similarity in fast/VLM modes, TF-IDF similarity, upload history, path
+ * keywords, content overlap, folder memory), combined either as a weighted
+ * sum or by reciprocal-rank fusion. Until enough picks are logged, the
+ * weights come from the hand-tuned tables below. After that, a pairwise
+ * logistic model fitted on this user's own picks replaces them: for every
+ * shown list, the picked file should outscore each file that was shown but
+ * not picked. The fit is pulled toward the default weights, so a few odd
+ * picks can't swing the ranking far.
+ *
+ * The dense signal always takes a fixed share of the weight when the
+ * candidate has an embedding; the tables and the learner cover how the rest
+ * is split. That keeps weights learned in TF-IDF mode valid in fast/VLM mode.
+ */
+
+import type { FusionMethod, RankingEvent, RankingFeatures, RankingModel, RankingSignal } from "./types";
+
+export const RANKING_SIGNALS: RankingSignal[] = ["dense", "tfidf", "history", "path", "content", "pathMemory"];
+
+/** Signals whose split the learner fits (dense has a fixed share) */
+const LEARNED_SIGNALS: RankingSignal[] = ["tfidf", "history", "path", "content", "pathMemory"];
+
+/** Weight given to dense similarity when the candidate has an embedding */
+const DENSE_WEIGHT_SHARE = 0.45;
+
+/**
+ * RRF damping constant. The usual 60 assumes long result lists; candidate
+ * pools here are a few dozen files, so a smaller k keeps rank gaps visible.
+ */
+const RRF_K = 10;
+
+/** Labelled events needed before learned weights replace the defaults */
+export const MIN_TRAINING_EVENTS = 20;
+
+/** Prior the learner is regularized toward (the tfidf-useful, has-history table) */
+const PRIOR_WEIGHTS: RankingFeatures = { dense: 0, tfidf: 0.42, history: 0.28, path: 0.14, content: 0.08, pathMemory: 0.08 };
+
+/** Signals are 0–1 and weights sum to 1, so raw score gaps are tiny; scale them up for the sigmoid */
+const MARGIN_SCALE = 10;
+const L2_TOWARD_PRIOR = 0.05;
+const LEARNING_RATE = 0.5;
+const EPOCHS = 200;
+
+/** Hand-tuned weights, picked by whether TF-IDF found anything and whether the file has history here */
+export function defaultWeights(tfidfUseful: boolean, hasHistory: boolean): RankingFeatures {
+  return tfidfUseful
+    ? (hasHistory
+      ? { dense: 0, tfidf: 0.42, history: 0.28, path: 0.14, content: 0.08, pathMemory: 0.08 }
+      : { dense: 0, tfidf: 0.56, history: 0.00, path: 0.22, content: 0.14, pathMemory: 0.08 })
+    : (hasHistory
+      ? { dense: 0, tfidf: 0.00, history: 0.36, path: 0.30, content: 0.20, pathMemory: 0.14 }
+      : { dense: 0, tfidf: 0.00, history: 0.00, path: 0.44, content: 0.42, pathMemory: 0.14 });
+}
+
+/** Give dense similarity its fixed share and scale the other weights into the rest */
+export function withDenseShare(weights: RankingFeatures, hasDense: boolean): RankingFeatures {
+  const scale = hasDense ? 1 - DENSE_WEIGHT_SHARE : 1;
+  const out = { dense: hasDense ? DENSE_WEIGHT_SHARE : 0 } as RankingFeatures;
+  for (const s of LEARNED_SIGNALS) out[s] = (weights[s] || 0) * scale;
+  return out;
+}
+
+export function scoreFeatures(features: RankingFeatures, weights: RankingFeatures): number {
+  let score = 0;
+  for (const s of RANKING_SIGNALS) score += (features[s] || 0) * (weights[s] || 0);
+  return score;
+}
+
+export interface FusedScore {
+  score: number;
+  /** Under "rrf": rank on each signal the candidate scored on */
+  ranks?: Partial<Record<RankingSignal, number>>;
+}
+
+/**
+ * Combine each candidate's signals into one 0–1 score.
+ *
+ * "weighted" is the plain weighted sum. "rrf" ranks the candidates on each
+ * signal separately and sums weight × (k+1)/(k+rank) over the signals the
+ * candidate scored on, so a top rank on every weighted signal scores 1.
+ * Candidates with a zero value for a signal get nothing from it.
+ */
+export function fuseScores(
+  candidates: { features: RankingFeatures; weights: RankingFeatures }[],
+  method: FusionMethod,
+): FusedScore[] {
+  if (method === "weighted") {
+    return candidates.map((c) => ({ score: scoreFeatures(c.features, c.weights) }));
+  }
+
+  const rankBySignal = new Map<RankingSignal, Map<number, number>>();
+  for (const s of RANKING_SIGNALS) {
+    const order = candidates
+      .map((c, i) => ({ i, value: c.features[s] || 0 }))
+      .filter((c) => c.value > 0)
+      .sort((a, b) => b.value - a.value);
+    const ranks = new Map<number, number>();
+    order.forEach((c, idx) => ranks.set(c.i, idx + 1));
+    rankBySignal.set(s, ranks);
+  }
+
+  return candidates.map((c, i) => {
+    let score = 0;
+    const ranks: Partial<Record<RankingSignal, number>> = {};
+    for (const s of RANKING_SIGNALS) {
+      const rank = rankBySignal.get(s)!.get(i);
+      if (rank === undefined) continue;
+      ranks[s] = rank;
+      score += (c.weights[s] || 0) * (RRF_K + 1) / (RRF_K + rank);
+    }
+    return { score, ranks };
+  });
+}
+
+/** Events where at least one picked file was among the shown candidates */
+export function isLabelled(event: RankingEvent): boolean {
+  return event.candidates.some((c) => event.pickedFileIds.includes(c.fileId));
+}
+
+/**
+ * Fit weights from logged events. Returns null below MIN_TRAINING_EVENTS
+ * labelled events — callers then use defaultWeights.
+ */
+export function trainRankingModel(events: RankingEvent[]): RankingModel | null {
+  // Feature differences (picked − not picked) for every pair in every list
+  const pairs: number[][] = [];
+  let labelled = 0;
+  for (const event of events) {
+    if (!isLabelled(event)) continue;
+    labelled++;
+    const picked = event.candidates.filter((c) => event.pickedFileIds.includes(c.fileId));
+    const others = event.candidates.filter((c) => !event.pickedFileIds.includes(c.fileId));
+    for (const p of picked) {
+      for (const o of others) {
+        pairs.push(LEARNED_SIGNALS.map((s) => (p.features[s] || 0) - (o.features[s] || 0)));
+      }
+    }
+  }
+  if (labelled < MIN_TRAINING_EVENTS) return null;
+
+  const prior = LEARNED_SIGNALS.map((s) => PRIOR_WEIGHTS[s]);
+  const w = [...prior];
+  for (let epoch = 0; epoch < EPOCHS && pairs.length > 0; epoch++) {
+    const grad = w.map((wi, i) => L2_TOWARD_PRIOR * (wi - prior[i]));
+    for (const d of pairs) {
+      let margin = 0;
+      for (let i = 0; i < w.length; i++) margin += w[i] * d[i];
+      // d/dw of log(1 + exp(-k·margin)), averaged over pairs
+      const g = -MARGIN_SCALE / (1 + Math.exp(MARGIN_SCALE * margin)) / pairs.length;
+      for (let i = 0; i < w.length; i++) grad[i] += g * d[i];
+    }
+    for (let i = 0; i < w.length; i++) w[i] = Math.max(0, w[i] - LEARNING_RATE * grad[i]);
+  }
+
+  // Keep the scale of the defaults so scores still read as percentages
+  const total = w.reduce((a, b) => a + b, 0) || 1;
+  const weights = { dense: 0 } as RankingFeatures;
+  LEARNED_SIGNALS.forEach((s, i) => {
+    weights[s] = w[i] / total;
+  });
+  return { weights, trainedOn: labelled, updatedAt: Date.now() };
+}
@@ -1,8 +1,31 @@
 // Messages between content script ↔ background ↔ popup
 
+/**
+ * Kinds of upload-field context the content script extracts separately, so
+ * ranking can trust a field label saying "Transcript" far more than generic
+ * page text.
+ */
+export type ContextFieldName =
+  | "label"           // <label>, aria-label, title, placeholder of the field
+  | "legend"          // enclosing <fieldset> legend
+  | "sectionHeading"  // nearest heading above the field
+  | "formTitle"       // form's aria-label / heading
+  | "acceptHint"      // accept attribute spelled out ("pdf document", "image photo")
+  | "helperText"      // aria-describedby / hint / instruction text
+  | "siblingLabels"   // labels of the other fields in the same form
+  | "zoneText"        // all text in the upload zone container
+  | "compose"         // email subject + body (Gmail, Outlook compose)
+  | "flowHistory"     // headings from earlier steps of a multi-step form
+  | "page";           // host-page context for fields inside cross-origin iframes
+
+export type ContextFields = Partial<Record<ContextFieldName, string>>;
+
 export interface MatchRequest {
   type: "MATCH_REQUEST";
+  /** Flat context (all fields joined) — used for history, bundles and dense queries */
   context: string;
+  /** Structured context; when present, TF-IDF and keyword scores weight each field */
+  contextFields?: ContextFields;
   accept?: string;
   pageUrl?: string;
   workflowId?: string;
@@ -15,14 +38,55 @@ export interface MatchResultItem {
   type: string;
   score: number;
   historyCount?: number;
+  /** Why this file ranked where it did */
+  explanation?: MatchExplanation;
+}
+
+/** Per-signal breakdown of a MatchResultItem's score */
+export interface MatchExplanation {
+  /** Signal values, 0–1 */
+  signals: RankingFeatures;
+  /** Weights the signals were combined with */
+  weights: RankingFeatures;
+  weightSource: "default" | "learned";
+  fusion: FusionMethod;
+  /** Under "rrf": the candidate's rank on each signal it scored on (1 = best) */
+  ranks?: Partial<Record<RankingSignal, number>>;
+  /** Subtracted for "not this file" dismissals on this site, 0 when none */
+  dismissPenalty: number;
+  /** Context terms found in the file's path or text, strongest first */
+  matchedTerms: string[];
 }
 
 export interface MatchResponse {
   type: "MATCH_RESPONSE";
   results: MatchResultItem[];
+  bundle?: UploadBundle;
   workflowId?: string;
+  /** Set when the shown candidates were logged for ranking training */
+  rankingEventId?: string;
+}
+
+// ---- Upload bundles (files repeatedly uploaded together on one page) ----
+
+export interface UploadBundleMember extends MatchResultItem {
+  /** Upload contexts this file was filled with before — used to pick its zone */
+  contexts: string[];
+}
+
+export interface UploadBundle {
+  members: UploadBundleMember[];
+  /** Past sessions that uploaded exactly this set of files */
+  sessions: number;
+  lastUsed: number;
 }
 
+/**
+ * How an upload was made: through xUpload's panel, or through the site's own
+ * file picker (matched back to an indexed file by name, size and mtime).
+ */
+export type UploadSource = "xupload" | "native";
+
 export interface UploadHistoryEntry {
   id?: number;
   fileId: string;
@@ -33,15 +97,169 @@ export interface UploadHistoryEntry {
   pageTitle: string;
   uploadContext: string;
   timestamp: number;
+  /** Missing on entries recorded before native tracking — treat as "xupload" */
+  source?: UploadSource;
+}
+
+/** A file chosen through the native picker, as the content script sees it */
+export interface NativeFileStat {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+export interface TrackNativeUploadRequest {
+  type: "TRACK_NATIVE_UPLOAD";
+  files: NativeFileStat[];
+  pageUrl: string;
+  pageTitle: string;
+  uploadContext: string;
+  workflowId?: string;
+}
+
+export interface TrackNativeUploadResponse {
+  /** IDs of indexed files the picked files were matched to */
+  matchedIds: string[];
+}
+
+// ---- Negative feedback ("not this file") ----
+
+/**
+ * A dismissed suggestion. Keyed by host + URL prefix + file, so dismissing a
+ * file on one course/job section doesn't bury it everywhere on the site.
+ */
+export interface NegativeFeedbackEntry {
+  websiteHost: string;
+  /** Leading path segments of the page, e.g. "/courses/12345" */
+  urlPrefix: string;
+  fileId: string;
+  /** How many times it was dismissed here */
+  count: number;
+  lastDismissed: number;
+}
+
+export interface DismissSuggestionRequest {
+  type: "DISMISS_SUGGESTION";
+  fileId: string;
+  pageUrl: string;
+  workflowId?: string;
+}
+
+// ---- On-device embeddings ("local" mode, offscreen document) ----
+
+export interface LocalEmbedRequest {
+  type: "LOCAL_EMBED";
+  /** Only the offscreen document answers messages addressed to it */
+  target: "offscreen";
+  texts: string[];
+}
+
+export interface LocalEmbedResponse {
+  vectors?: number[][];
+  error?: string;
+}
+
+// ---- Dense index re-embedding ----
+
+/** Progress of the background job that re-embeds records left over from another model */
+export interface ReembedStatus {
+  running: boolean;
+  /** Embedding model records are migrated to (EmbeddingProvider.id); null when no provider is active */
+  model: string | null;
+  /** Records embedded so far in the current run */
+  done: number;
+  /** Records the current run set out to embed */
+  total: number;
+  /** Records whose dense vector is missing or from another model */
+  stale: number;
+  /** Why the last run stopped early */
+  error?: string;
+}
+
+/** Broadcast by the background while a re-embedding job runs */
+export interface ReembedProgressMessage {
+  type: "REEMBED_PROGRESS";
+  status: ReembedStatus;
+}
+
+// ---- Learned ranking ----
+
+/** Per-candidate signals combined by the ranking in handleMatch */
+export type RankingSignal = "dense" | "tfidf" | "history" | "path" | "content" | "pathMemory";
+
+export type RankingFeatures = Record<RankingSignal, number>;
+
+/**
+ * One shown recommendation list: every candidate's feature vector, plus the
+ * file(s) the user went on to upload from it.
+ */
+export interface RankingEvent {
+  id: string;
+  timestamp: number;
+  websiteHost: string;
+  candidates: { fileId: string; features: RankingFeatures }[];
+  pickedFileIds: string[];
+}
+
+/** Per-user weights fitted from RankingEvents */
+export interface RankingModel {
+  weights: RankingFeatures;
+  /** Labelled events the weights were fitted on */
+  trainedOn: number;
+  updatedAt: number;
+}
+
+export interface RankingStatusResponse {
+  /** Events with a pick that are usable for training */
+  labelledEvents: number;
+  /** Labelled events needed before learned weights replace the defaults */
+  minEvents: number;
+  model: RankingModel | null;
 }
 
 // ---- Config ----
 
-export type XUploadMode = "tfidf" | "fast" | "vlm";
+export type XUploadMode = "tfidf" | "fast" | "vlm" | "local";
+
+/**
+ * How ranking signals are combined:
+ *   weighted — weighted sum of the signal values
+ *   rrf      — reciprocal-rank fusion: each signal votes by the candidate's
+ *              rank on it, so signals on different scales mix evenly
+ */
+export type FusionMethod = "weighted" | "rrf";
+
+/** Backend for embeddings and VLM descriptions in fast/vlm modes */
+export type EmbeddingProviderKind = "gemini" | "openai" | "ollama";
 
 export interface XUploadConfig {
+  /** API key for the selected provider (optional for openai/ollama servers) */
   apiKey: string;
   mode: XUploadMode;
+  /** Missing = "weighted" */
+  fusion?: FusionMethod;
+  /** Missing = "gemini" */
+  provider?: EmbeddingProviderKind;
+  /** Empty/missing fields fall back to the provider's defaults (see PROVIDER_DEFAULTS) */
+  baseUrl?: string;
+  embeddingModel?: string;
+  visionModel?: string;
+  /** Expected embedding length; also requested from providers that support it */
+  dimension?: number;
+}
+
+/** Which files a folder scan indexes (stored in chrome.storage.local "xupload_index_rules") */
+export interface IndexRules {
+  /** Globs a file must match to be indexed; empty = every file */
+  include: string[];
+  /** Globs for files and folders to skip; a matching folder is never opened */
+  exclude: string[];
+  /** Lower-case extensions without the dot; empty = any extension */
+  extensions: string[];
+  /** Larger files are skipped; 0 = no limit */
+  maxFileSizeMB: number;
+  /** Apply .gitignore and .xuploadignore files found in the tree */
+  useIgnoreFiles: boolean;
 }
 
 // ---- Enhanced match request (for fast/vlm modes) ----
@@ -49,6 +267,7 @@ export interface XUploadConfig {
 export interface MatchRequestEnhanced {
   type: "MATCH_REQUEST_ENHANCED";
   context: string;
+  contextFields?: ContextFields;
   accept?: string;
   pageUrl?: string;
   workflowId?: string;
@@ -57,6 +276,232 @@ export interface MatchRequestEnhanced {
   screenshotBase64?: string;  // populated by content script for VLM mode
 }
 
+// ---- Indexing (src/indexer.ts) ----
+
+/** A file read during a folder walk, ready to be committed to the index */
+export interface CollectedFile {
+  /** Relative to the root folder */
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  /** Extracted text; left out for unchanged files whose stored record is reused */
+  text?: string;
+}
+
+/** What the index already holds for a file, so a walk can skip re-reading it */
+export interface KnownFile {
+  size: number;
+  lastModified: number;
+  /** Unchanged but still needs text (its embedding is missing or from another model) */
+  needsText: boolean;
+}
+
+/** Files that couldn't be embedded during a scan */
+export interface EmbedFailure {
+  path: string;
+  error: string;
+}
+
+export interface IndexScanResult {
+  rootId: string;
+  /** Files the walk found (after rules) */
+  discovered: number;
+  /** New or changed files written */
+  updated: number;
+  unchanged: number;
+  /** Records dropped because their file is gone or now excluded */
+  deleted: number;
+  unreadable: number;
+  /** Files and folders left out by index rules */
+  excluded: number;
+  embedded: number;
+  embedFailures: EmbedFailure[];
+  /** Records in the whole index afterwards */
+  total: number;
+}
+
+/** Progress reported by the indexing engine, phase by phase */
+export type IndexEvent =
+  | { phase: "walk"; discovered: number; excluded: number }
+  | { phase: "read"; done: number; total: number; unchanged: number }
+  | { phase: "embed"; done: number; total: number }
+  | { phase: "write"; done: number; total: number }
+  | { phase: "done"; result: IndexScanResult };
+
+/**
+ * Content script → background: indexed roots named like the folder a page is
+ * about to scan. A name isn't an identity — the user picks which one (if any)
+ * the folder is.
+ */
+export interface FindRootsRequest {
+  type: "FIND_ROOTS";
+  name: string;
+}
+
+export interface RootChoice {
+  id: string;
+  name: string;
+  fileCount: number;
+  lastScanTimestamp: number;
+}
+
+export interface FindRootsResponse {
+  roots: RootChoice[];
+}
+
+/** Content script → background: what's indexed for the root a page scan updates */
+export interface GetKnownFilesRequest {
+  type: "GET_KNOWN_FILES";
+  rootId: string;
+}
+
+export interface GetKnownFilesResponse {
+  rootId: string | null;
+  files: Record<string, KnownFile>;
+}
+
+/** Content script → background: commit a folder walked on a page */
+export interface BuildIndexRequest {
+  type: "BUILD_INDEX";
+  files: CollectedFile[];
+  /** The root the user chose to update; without one, the folder becomes a new root */
+  rootId?: string;
+  rootName: string;
+  unreadable?: number;
+  excluded?: number;
+  workflowId?: string;
+}
+
+export interface BuildIndexResponse {
+  ok: boolean;
+  result?: IndexScanResult;
+  workflowId?: string;
+  error?: string;
+}
+
+// ---- Indexing jobs (src/indexJobs.ts) ----
+
+/**
+ * queued → running → done. A running job can be paused (kept with its
+ * checkpoint, resumable) or cancelled; it pauses itself when folder access
+ * has lapsed, and fails on errors (resumable too).
+ */
+export type IndexJobState = "queued" | "running" | "paused" | "cancelled" | "done" | "failed";
+
+/** What started a scan */
+export type ScanTrigger = "manual" | "alarm" | "page";
+
+/** How a root's last scan went, kept on the root for the popup */
+export interface ScanReport {
+  trigger: ScanTrigger;
+  finishedAt: number;
+  durationMs: number;
+  /** Absent when the scan failed or couldn't start */
+  result?: IndexScanResult;
+  error?: string;
+}
+
+/** A folder scan running in the background, persisted so it outlives the popup and the service worker */
+export interface IndexJob {
+  id: string;
+  rootId: string;
+  rootName: string;
+  trigger: ScanTrigger;
+  /** Only read new or changed files; a full scan re-reads everything */
+  incremental: boolean;
+  state: IndexJobState;
+  /** Latest progress while running */
+  progress?: Exclude<IndexEvent, { phase: "done" }>;
+  result?: IndexScanResult;
+  /** Why the job failed or paused itself */
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  workflowId: string;
+}
+
+/** Broadcast by the background whenever a job's state or progress changes */
+export interface IndexJobProgressMessage {
+  type: "INDEX_JOB_PROGRESS";
+  job: IndexJob;
+}
+
+export interface StartIndexJobRequest {
+  type: "START_INDEX_JOB";
+  rootId: string;
+  incremental: boolean;
+  workflowId?: string;
+}
+
+export type IndexJobAction = "pause" | "resume" | "cancel";
+
+export interface IndexJobControlRequest {
+  type: "INDEX_JOB_CONTROL";
+  jobId: string;
+  action: IndexJobAction;
+}
+
+export interface IndexJobResponse {
+  ok: boolean;
+  job?: IndexJob;
+  error?: string;
+}
+
+export interface GetIndexJobsResponse {
+  jobs: IndexJob[];
+}
+
+/** Background → offscreen document: walk and read a root's folder for a job */
+export interface CollectFilesRequest {
+  type: "COLLECT_FILES";
+  target: "offscreen";
+  jobId: string;
+  rootId: string;
+  /** Passed in: offscreen documents can't read chrome.storage */
+  rules: IndexRules;
+  known: Record<string, KnownFile>;
+}
+
+export interface CollectFilesResponse {
+  /** Files found, without their text — every file read is in the job's checkpoint */
+  files?: CollectedFile[];
+  excluded?: number;
+  unreadable?: number;
+  /** Set instead of files when the folder can't be read without asking the user */
+  permission?: "prompt" | "denied" | "missing";
+  error?: string;
+}
+
+/** Background → offscreen document: stop a COLLECT_FILES walk (job paused or cancelled) */
+export interface CancelCollectRequest {
+  type: "CANCEL_COLLECT";
+  target: "offscreen";
+  jobId: string;
+}
+
+/** Offscreen document → background, while a COLLECT_FILES walk runs */
+export interface CollectProgressMessage {
+  type: "COLLECT_PROGRESS";
+  jobId: string;
+  event: IndexEvent;
+}
+
+// ---- Remove a root ----
+
+/** Popup → background: forget a root, once no index write is in flight */
+export interface RemoveRootRequest {
+  type: "REMOVE_ROOT";
+  rootId: string;
+  workflowId?: string;
+}
+
+export interface RemoveRootResponse {
+  ok: boolean;
+  error?: string;
+}
+
 // ---- Clear scanned data ----
 
 export interface ClearScannedDataRequest {
@@ -70,3 +515,106 @@ export interface ClearScannedDataResponse {
   workflowId?: string;
   error?: string;
 }
+
+// ---- Fill every upload zone on the page ----
+
+export interface FillAllZonesRequest {
+  type: "FILL_ALL_ZONES";
+  workflowId?: string;
+}
+
+export interface FillAllZonesResponse {
+  ok: boolean;
+  zoneCount: number;
+  error?: string;
+}
+
+/**
+ * Fill all across frames. Cross-origin frames with upload zones register with
+ * the background (REGISTER_ZONE_FRAME); the top frame's review sheet collects
+ * their zones and recommendations through it (COLLECT_FRAME_ZONES →
+ * GET_FRAME_ZONES per frame) and has approved rows filled there
+ * (FILL_FRAME_ZONE → FILL_ZONE).
+ */
+export interface FrameZone {
+  zoneId: string;
+  label: string;
+  results: MatchResultItem[];
+  /** Set by the background when relaying to the top frame */
+  frameId?: number;
+}
+
+export interface CollectFrameZonesRequest {
+  type: "COLLECT_FRAME_ZONES";
+  workflowId?: string;
+}
+
+export interface FrameZonesResponse {
+  zones: FrameZone[];
+}
+
+export interface FillFrameZoneRequest {
+  type: "FILL_FRAME_ZONE";
+  frameId: number;
+  zoneId: string;
+  result: MatchResultItem;
+  workflowId?: string;
+}
+
+export interface FillFrameZoneResponse {
+  ok: boolean;
+}
+
+// ---- Cross-frame coordination ----
+
+/**
+ * What the top frame knows about the page — the job title / company that a
+ * cross-origin upload iframe (Greenhouse, Lever, Workday embeds) can't see.
+ */
+export interface PageContext {
+  url: string;
+  title: string;
+  heading: string;
+  siteName: string;
+  description: string;
+}
+
+/** Sub-frame → background: relay a GET_PAGE_CONTEXT to the tab's top frame */
+export interface GetFrameContextRequest {
+  type: "GET_FRAME_CONTEXT";
+  workflowId?: string;
+}
+
+export interface GetFrameContextResponse {
+  context: PageContext | null;
+}
+
+// ---- Search-as-you-type (panel search box) ----
+
+/** Half-open [start, end) character range of a match */
+export type MatchRange = [number, number];
+
+export interface FuzzyHighlights {
+  name: MatchRange[];
+  path: MatchRange[];
+  /** Preview text around a content match, when the name/path didn't match */
+  snippet?: { text: string; ranges: MatchRange[] };
+}
+
+export interface SearchRequest {
+  type: "SEARCH_REQUEST";
+  query: string;
+  accept?: string;
+  limit?: number;
+  workflowId?: string;
+}
+
+export interface SearchResultItem extends MatchResultItem {
+  highlights: FuzzyHighlights;
+}
+
+export interface SearchResponse {
+  type: "SEARCH_RESPONSE";
+  workflowId?: string;
+  results: SearchResultItem[];
+}
@@ -1,41 +1,60 @@
 /**
  * Local vector database backed by IndexedDB.
  * Stores file embeddings + metadata. File content is read on-demand
- * via a persisted FileSystemDirectoryHandle.
+ * via the persisted FileSystemDirectoryHandle of the file's root folder.
  */
 
 export interface VectorRecord {
-  id: string;              // unique key (file path)
+  id: string;              // unique key: "<rootId>:<path>" (see fileIdFor)
+  rootId: string;          // IndexRoot the file was scanned from
   name: string;
-  path: string;
+  path: string;            // relative to the root folder
   type: string;
   size: number;
   lastModified: number;
   vector: number[];        // TF-IDF embedding vector
-  denseVector?: number[];  // Gemini embedding (768-dim, optional)
+  denseVector?: number[];  // provider embedding (optional, fast/VLM/local modes)
+  denseModel?: string;     // EmbeddingProvider.id that produced denseVector
+  denseDim?: number;       // denseVector.length when it was stored
   textPreview: string;     // first N chars of extracted text
 }
 
 import type { VocabSnapshot } from "./embeddings";
-import type { UploadHistoryEntry } from "./types";
+import type { IndexJob, NegativeFeedbackEntry, RankingEvent, RankingModel, ScanReport, UploadHistoryEntry } from "./types";
 
 const DB_NAME = "xupload_vectors";
-const DB_VERSION = 5;
+const DB_VERSION = 10;
 const STORE_NAME = "files";
 const HANDLE_STORE = "dir_handles";
 const VOCAB_STORE = "vocabulary";
 const HISTORY_STORE = "upload_history";
 const CONFIG_STORE = "config";
+const FEEDBACK_STORE = "negative_feedback";
+const RANKING_STORE = "ranking_events";
+const ROOTS_STORE = "roots";
+const JOBS_STORE = "index_jobs";
+const CHECKPOINT_STORE = "index_checkpoints";
+
+/** Root ID given to the single folder indexed before multiple roots existed */
+const LEGACY_ROOT_ID = "main";
+
+/** Oldest ranking events are pruned past this many */
+const MAX_RANKING_EVENTS = 1000;
 
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const req = indexedDB.open(DB_NAME, DB_VERSION);
-    req.onupgradeneeded = () => {
+    req.onupgradeneeded = (event) => {
       const db = req.result;
-      if (db.objectStoreNames.contains(STORE_NAME)) {
+      const tx = req.transaction!;
+      // File records from before v5 are incompatible and get rebuilt. Later
+      // versions only add stores, so an existing index survives the upgrade.
+      if (event.oldVersion < 5 && db.objectStoreNames.contains(STORE_NAME)) {
         db.deleteObjectStore(STORE_NAME);
       }
-      db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
       if (!db.objectStoreNames.contains(HANDLE_STORE)) {
         db.createObjectStore(HANDLE_STORE);
       }
@@ -50,12 +69,105 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(CONFIG_STORE)) {
         db.createObjectStore(CONFIG_STORE);
       }
+      if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+        const feedbackStore = db.createObjectStore(FEEDBACK_STORE, {
+          keyPath: ["websiteHost", "urlPrefix", "fileId"],
+        });
+        feedbackStore.createIndex("websiteHost", "websiteHost", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(RANKING_STORE)) {
+        const rankingStore = db.createObjectStore(RANKING_STORE, { keyPath: "id" });
+        rankingStore.createIndex("timestamp", "timestamp", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(ROOTS_STORE)) {
+        db.createObjectStore(ROOTS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        db.createObjectStore(JOBS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
+        const checkpointStore = db.createObjectStore(CHECKPOINT_STORE, { keyPath: ["jobId", "path"] });
+        checkpointStore.createIndex("jobId", "jobId", { unique: false });
+      }
+      const filesStore = tx.objectStore(STORE_NAME);
+      if (!filesStore.indexNames.contains("rootId")) {
+        filesStore.createIndex("rootId", "rootId", { unique: false });
+      }
+      const historyStore = tx.objectStore(HISTORY_STORE);
+      if (!historyStore.indexNames.contains("websiteHost_timestamp")) {
+        historyStore.createIndex("websiteHost_timestamp", ["websiteHost", "timestamp"], { unique: false });
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 8) {
+        migrateToRoots(tx);
+      }
     };
     req.onsuccess = () => resolve(req.result);
     req.onerror = () => reject(req.error);
   });
 }
 
+/** Read every value of a store, rewrite it, and write it back (re-keying if the key changes) */
+function rewriteStore<T>(tx: IDBTransaction, storeName: string, rewrite: (value: T) => T, rekey = false): void {
+  const store = tx.objectStore(storeName);
+  const req = store.getAll();
+  req.onsuccess = () => {
+    const values = req.result as T[];
+    if (rekey) store.clear();
+    for (const value of values) store.put(rewrite(value));
+  };
+}
+
+/**
+ * v8: records are namespaced by root. The folder indexed before becomes root
+ * "main" (its handle was already stored under that key), every stored file
+ * ID gets the "main:" prefix, and the old global rescan settings move onto
+ * that root.
+ */
+function migrateToRoots(tx: IDBTransaction): void {
+  const legacyId = (id: string) => fileIdFor(LEGACY_ROOT_ID, id);
+
+  rewriteStore<VectorRecord>(tx, STORE_NAME, (r) => ({ ...r, id: legacyId(r.id), rootId: LEGACY_ROOT_ID }), true);
+  rewriteStore<UploadHistoryEntry>(tx, HISTORY_STORE, (h) => ({ ...h, fileId: legacyId(h.fileId) }));
+  rewriteStore<NegativeFeedbackEntry>(tx, FEEDBACK_STORE, (f) => ({ ...f, fileId: legacyId(f.fileId) }), true);
+  rewriteStore<RankingEvent>(tx, RANKING_STORE, (e) => ({
+    ...e,
+    candidates: e.candidates.map((c) => ({ ...c, fileId: legacyId(c.fileId) })),
+    pickedFileIds: e.pickedFileIds.map(legacyId),
+  }));
+
+  const handleReq = tx.objectStore(HANDLE_STORE).get(LEGACY_ROOT_ID);
+  const countReq = tx.objectStore(STORE_NAME).count();
+  const rescanReq = tx.objectStore(CONFIG_STORE).get("rescan");
+  rescanReq.onsuccess = () => {
+    const handle = handleReq.result as FileSystemDirectoryHandle | undefined;
+    const rescan = rescanReq.result as LegacyRescanConfig | undefined;
+    if (handle || countReq.result > 0) {
+      const root: IndexRoot = {
+        id: LEGACY_ROOT_ID,
+        name: handle?.name || "My files",
+        enabled: true,
+        autoRescanEnabled: rescan?.autoRescanEnabled ?? true,
+        rescanIntervalMin: rescan?.rescanIntervalMin ?? 30,
+        lastScanTimestamp: rescan?.lastScanTimestamp ?? 0,
+      };
+      tx.objectStore(ROOTS_STORE).put(root);
+    }
+    tx.objectStore(CONFIG_STORE).delete("rescan");
+  };
+}
+
+/** File IDs are unique across roots: the same relative path can exist in several */
+export function fileIdFor(rootId: string, path: string): string {
+  return `${rootId}:${path}`;
+}
+
+export function parseFileId(id: string): { rootId: string; path: string } {
+  const sep = id.indexOf(":");
+  return sep === -1
+    ? { rootId: LEGACY_ROOT_ID, path: id }
+    : { rootId: id.slice(0, sep), path: id.slice(sep + 1) };
+}
+
 export async function upsert(record: VectorRecord): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -76,6 +188,23 @@ export async function getAll(): Promise<VectorRecord[]> {
   });
 }
 
+/** Records from roots that are switched on — the ones recommendations draw from */
+export async function getEnabledRecords(): Promise<VectorRecord[]> {
+  const [records, roots] = await Promise.all([getAll(), getRoots()]);
+  const enabled = new Set(roots.filter((r) => r.enabled).map((r) => r.id));
+  return records.filter((r) => enabled.has(r.rootId));
+}
+
+export async function getRecordsByRoot(rootId: string): Promise<VectorRecord[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, "readonly");
+    const req = tx.objectStore(STORE_NAME).index("rootId").getAll(rootId);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
 export async function getById(id: string): Promise<VectorRecord | undefined> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -122,28 +251,33 @@ export interface SearchResult {
   score: number;
 }
 
+/**
+ * Keep records matching an `accept` attribute (".pdf", "image/*", ...).
+ * Falls back to all records when nothing matches, so a wrong accept hint
+ * never empties the result list.
+ */
+export function filterByAccept(records: VectorRecord[], acceptFilter?: string): VectorRecord[] {
+  if (!acceptFilter) return records;
+  const accepts = acceptFilter.split(",").map((s) => s.trim().toLowerCase());
+  const filtered = records.filter((r) => {
+    const ext = "." + r.name.split(".").pop()?.toLowerCase();
+    const mime = r.type.toLowerCase();
+    return accepts.some(
+      (a) =>
+        a === ext ||
+        a === mime ||
+        (a.endsWith("/*") && mime.startsWith(a.replace("/*", "/")))
+    );
+  });
+  return filtered.length > 0 ? filtered : records;
+}
+
 export async function search(
   queryVector: number[],
   topN: number = 5,
   acceptFilter?: string
 ): Promise<SearchResult[]> {
-  const all = await getAll();
-  let candidates = all;
-
-  if (acceptFilter) {
-    const accepts = acceptFilter.split(",").map((s) => s.trim().toLowerCase());
-    const filtered = all.filter((r) => {
-      const ext = "." + r.name.split(".").pop()?.toLowerCase();
-      const mime = r.type.toLowerCase();
-      return accepts.some(
-        (a) =>
-          a === ext ||
-          a === mime ||
-          (a.endsWith("/*") && mime.startsWith(a.replace("/*", "/")))
-      );
-    });
-    if (filtered.length > 0) candidates = filtered;
-  }
+  const candidates = filterByAccept(await getEnabledRecords(), acceptFilter);
 
   return candidates
     .map((record) => ({ record, score: cosine(queryVector, record.vector) }))
@@ -152,28 +286,232 @@ export async function search(
     .filter((r) => r.score > 0);
 }
 
-/** Save the directory handle for on-demand file reading. */
-export async function saveDirectoryHandle(handle: FileSystemDirectoryHandle): Promise<void> {
+// ---- Index roots ----
+
+/** A folder tree indexed on its own, with its own toggle and rescan schedule */
+export interface IndexRoot {
+  id: string;
+  /** Shown in the popup; defaults to the folder's name */
+  name: string;
+  /** Disabled roots stay indexed but are left out of recommendations */
+  enabled: boolean;
+  autoRescanEnabled: boolean;
+  rescanIntervalMin: number;
+  lastScanTimestamp: number;
+  lastReport?: ScanReport;
+}
+
+/** Read access to a root's folder; "missing" = no handle stored (e.g. indexed from a page) */
+export type RootPermission = "granted" | "prompt" | "denied" | "missing";
+
+/** Global rescan settings from before v8, kept for the migration */
+interface LegacyRescanConfig {
+  autoRescanEnabled: boolean;
+  rescanIntervalMin: number;
+  lastScanTimestamp: number;
+}
+
+export async function getRoots(): Promise<IndexRoot[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ROOTS_STORE, "readonly");
+    const req = tx.objectStore(ROOTS_STORE).getAll();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function getRoot(id: string): Promise<IndexRoot | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ROOTS_STORE, "readonly");
+    const req = tx.objectStore(ROOTS_STORE).get(id);
+    req.onsuccess = () => resolve(req.result ?? undefined);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveRoot(root: IndexRoot): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ROOTS_STORE, "readwrite");
+    tx.objectStore(ROOTS_STORE).put(root);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Keep a root's last scan report, re-reading the root so concurrent edits aren't lost */
+export async function saveScanReport(rootId: string, report: ScanReport): Promise<void> {
+  const root = await getRoot(rootId);
+  if (root) await saveRoot({ ...root, lastReport: report });
+}
+
+/** Register a new root folder. The handle is optional: pages can't hand theirs to the extension. */
+export async function addRoot(name: string, handle?: FileSystemDirectoryHandle): Promise<IndexRoot> {
+  const root: IndexRoot = {
+    // No ":" — it separates the root from the path in file IDs
+    id: `root-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    enabled: true,
+    autoRescanEnabled: true,
+    rescanIntervalMin: 30,
+    lastScanTimestamp: 0,
+  };
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ROOTS_STORE, HANDLE_STORE], "readwrite");
+    tx.objectStore(ROOTS_STORE).put(root);
+    if (handle) tx.objectStore(HANDLE_STORE).put(handle, root.id);
+    tx.oncomplete = () => resolve(root);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Forget a root: its settings, folder handle and indexed files */
+export async function removeRoot(id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ROOTS_STORE, HANDLE_STORE, STORE_NAME], "readwrite");
+    tx.objectStore(ROOTS_STORE).delete(id);
+    tx.objectStore(HANDLE_STORE).delete(id);
+    const req = tx.objectStore(STORE_NAME).index("rootId").openKeyCursor(IDBKeyRange.only(id));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      tx.objectStore(STORE_NAME).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Save a root's directory handle for on-demand file reading. */
+export async function saveDirectoryHandle(rootId: string, handle: FileSystemDirectoryHandle): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(HANDLE_STORE, "readwrite");
-    tx.objectStore(HANDLE_STORE).put(handle, "main");
+    tx.objectStore(HANDLE_STORE).put(handle, rootId);
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
 }
 
-/** Retrieve the persisted directory handle. */
-export async function getDirectoryHandle(): Promise<FileSystemDirectoryHandle | null> {
+/** Retrieve a root's persisted directory handle. */
+export async function getDirectoryHandle(rootId: string): Promise<FileSystemDirectoryHandle | null> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(HANDLE_STORE, "readonly");
-    const req = tx.objectStore(HANDLE_STORE).get("main");
+    const req = tx.objectStore(HANDLE_STORE).get(rootId);
     req.onsuccess = () => resolve(req.result ?? null);
     req.onerror = () => reject(req.error);
   });
 }
 
+/** Current read permission on a root's folder, without prompting */
+export async function getRootPermission(rootId: string): Promise<RootPermission> {
+  const handle = await getDirectoryHandle(rootId);
+  if (!handle) return "missing";
+  return (handle as any).queryPermission({ mode: "read" });
+}
+
+// ---- Indexing jobs ----
+
+/**
+ * A file an indexing job has already read (and maybe embedded), so a resumed
+ * job can skip it. Only valid while the file's size and mtime still match.
+ */
+export interface IndexCheckpoint {
+  jobId: string;
+  path: string;
+  size: number;
+  lastModified: number;
+  text: string;
+  denseVector?: number[];
+  denseModel?: string;
+  denseDim?: number;
+}
+
+export async function saveIndexJob(job: IndexJob): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOBS_STORE, "readwrite");
+    tx.objectStore(JOBS_STORE).put(job);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getIndexJob(id: string): Promise<IndexJob | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOBS_STORE, "readonly");
+    const req = tx.objectStore(JOBS_STORE).get(id);
+    req.onsuccess = () => resolve(req.result ?? undefined);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** All jobs, oldest first */
+export async function getIndexJobs(): Promise<IndexJob[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOBS_STORE, "readonly");
+    const req = tx.objectStore(JOBS_STORE).getAll();
+    req.onsuccess = () => resolve((req.result as IndexJob[]).sort((a, b) => a.createdAt - b.createdAt));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Forget a job and its checkpoint */
+export async function deleteIndexJob(id: string): Promise<void> {
+  await clearIndexCheckpoints(id);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOBS_STORE, "readwrite");
+    tx.objectStore(JOBS_STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function saveIndexCheckpoint(checkpoint: IndexCheckpoint): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CHECKPOINT_STORE, "readwrite");
+    tx.objectStore(CHECKPOINT_STORE).put(checkpoint);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getIndexCheckpoints(jobId: string): Promise<IndexCheckpoint[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CHECKPOINT_STORE, "readonly");
+    const req = tx.objectStore(CHECKPOINT_STORE).index("jobId").getAll(IDBKeyRange.only(jobId));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function clearIndexCheckpoints(jobId: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CHECKPOINT_STORE, "readwrite");
+    const req = tx.objectStore(CHECKPOINT_STORE).index("jobId").openKeyCursor(IDBKeyRange.only(jobId));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      tx.objectStore(CHECKPOINT_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 /**
  * Read file content on-demand using the stored directory handle.
  * Navigates the handle tree using the file's relative path.
@@ -190,32 +528,9 @@ export async function getFileData(id: string): Promise<{
     return null;
   }
 
-  const dirHandle = await getDirectoryHandle();
-  if (!dirHandle) {
-    console.error("[xUpload] getFileData: no directory handle stored");
-    return null;
-  }
-
   try {
-    // Check permission on the handle
-    const perm = await (dirHandle as any).queryPermission({ mode: "read" });
-    console.log("[xUpload] Directory handle permission:", perm);
-    if (perm !== "granted") {
-      // Don't try to request permission here - it will fail with 405
-      // because we're in background context without user gesture
-      console.warn("[xUpload] Directory permission not granted. User must re-authorize from popup.");
-      return null;
-    }
-
-    // Navigate to the file through the directory tree
-    const parts = record.path.split("/");
-    console.log("[xUpload] Navigating path parts:", parts);
-    let currentDir: FileSystemDirectoryHandle = dirHandle;
-    for (let i = 0; i < parts.length - 1; i++) {
-      currentDir = await currentDir.getDirectoryHandle(parts[i]);
-    }
-    const fileHandle = await currentDir.getFileHandle(parts[parts.length - 1]);
-    const file = await fileHandle.getFile();
+    const file = await readIndexedFile(record);
+    if (!file) return null;
 
     const buffer = await file.arrayBuffer();
     const bytes = new Uint8Array(buffer);
@@ -236,6 +551,37 @@ export async function getFileData(id: string): Promise<{
   }
 }
 
+/**
+ * Open an indexed file through its root's directory handle. Null when no
+ * handle is stored or read permission has lapsed (it can only be re-granted
+ * from the popup). Throws if the file is gone.
+ */
+export async function readIndexedFile(record: VectorRecord): Promise<File | null> {
+  const dirHandle = await getDirectoryHandle(record.rootId);
+  if (!dirHandle) {
+    console.error("[xUpload] readIndexedFile: no directory handle stored");
+    return null;
+  }
+
+  // Check permission on the handle
+  const perm = await (dirHandle as any).queryPermission({ mode: "read" });
+  if (perm !== "granted") {
+    // Don't try to request permission here - it will fail with 405
+    // because we're in background context without user gesture
+    console.warn("[xUpload] Directory permission not granted. User must re-authorize from popup.");
+    return null;
+  }
+
+  // Navigate to the file through the directory tree
+  const parts = record.path.split("/");
+  let currentDir: FileSystemDirectoryHandle = dirHandle;
+  for (let i = 0; i < parts.length - 1; i++) {
+    currentDir = await currentDir.getDirectoryHandle(parts[i]);
+  }
+  const fileHandle = await currentDir.getFileHandle(parts[parts.length - 1]);
+  return fileHandle.getFile();
+}
+
 // ---- Vocabulary persistence (IndexedDB) ----
 
 export async function saveVocab(vocab: VocabSnapshot): Promise<void> {
@@ -270,52 +616,167 @@ export async function addUploadHistory(entry: Omit<UploadHistoryEntry, "id">): P
   });
 }
 
+/** The host's `limit` most recent uploads, newest first */
 export async function getHistoryByHost(websiteHost: string, limit: number = 50): Promise<UploadHistoryEntry[]> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(HISTORY_STORE, "readonly");
-    const index = tx.objectStore(HISTORY_STORE).index("websiteHost");
-    const req = index.getAll(websiteHost, limit);
+    const index = tx.objectStore(HISTORY_STORE).index("websiteHost_timestamp");
+    const range = IDBKeyRange.bound([websiteHost, -Infinity], [websiteHost, Infinity]);
+    const req = index.openCursor(range, "prev");
+    const rows: UploadHistoryEntry[] = [];
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (cursor && rows.length < limit) {
+        rows.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(rows);
+      }
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// ---- Negative feedback ----
+
+/** Record (or re-record) that `fileId` was dismissed on pages under `urlPrefix` */
+export async function addNegativeFeedback(
+  websiteHost: string,
+  urlPrefix: string,
+  fileId: string,
+): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FEEDBACK_STORE, "readwrite");
+    const store = tx.objectStore(FEEDBACK_STORE);
+    const req = store.get([websiteHost, urlPrefix, fileId]);
+    req.onsuccess = () => {
+      const existing: NegativeFeedbackEntry | undefined = req.result;
+      const entry: NegativeFeedbackEntry = {
+        websiteHost,
+        urlPrefix,
+        fileId,
+        count: (existing?.count || 0) + 1,
+        lastDismissed: Date.now(),
+      };
+      store.put(entry);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getNegativeFeedbackByHost(websiteHost: string): Promise<NegativeFeedbackEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FEEDBACK_STORE, "readonly");
+    const req = tx.objectStore(FEEDBACK_STORE).index("websiteHost").getAll(websiteHost);
     req.onsuccess = () => resolve(req.result);
     req.onerror = () => reject(req.error);
   });
 }
 
-// ---- Delete record by ID ----
+// ---- Ranking events (learned ranking weights) ----
 
-export async function deleteById(id: string): Promise<void> {
+export async function addRankingEvent(event: RankingEvent): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    tx.objectStore(STORE_NAME).delete(id);
+    const tx = db.transaction(RANKING_STORE, "readwrite");
+    const store = tx.objectStore(RANKING_STORE);
+    store.put(event);
+    const countReq = store.count();
+    countReq.onsuccess = () => {
+      let excess = countReq.result - MAX_RANKING_EVENTS;
+      if (excess <= 0) return;
+      const cursorReq = store.index("timestamp").openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    };
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
 }
 
-// ---- Config persistence ----
+/** Mark a file as picked from a logged list. False if the event is unknown (pruned or never logged). */
+export async function recordRankingPick(eventId: string, fileId: string): Promise<boolean> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RANKING_STORE, "readwrite");
+    const store = tx.objectStore(RANKING_STORE);
+    let found = false;
+    const getReq = store.get(eventId);
+    getReq.onsuccess = () => {
+      const event = getReq.result as RankingEvent | undefined;
+      if (!event) return;
+      found = true;
+      if (!event.pickedFileIds.includes(fileId)) {
+        event.pickedFileIds.push(fileId);
+        store.put(event);
+      }
+    };
+    tx.oncomplete = () => resolve(found);
+    tx.onerror = () => reject(tx.error);
+  });
+}
 
-export interface RescanConfig {
-  autoRescanEnabled: boolean;
-  rescanIntervalMin: number;
-  lastScanTimestamp: number;
+export async function getRankingEvents(): Promise<RankingEvent[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RANKING_STORE, "readonly");
+    const req = tx.objectStore(RANKING_STORE).getAll();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
 }
 
-export async function getRescanConfig(): Promise<RescanConfig> {
+export async function getRankingModel(): Promise<RankingModel | null> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CONFIG_STORE, "readonly");
-    const req = tx.objectStore(CONFIG_STORE).get("rescan");
-    req.onsuccess = () => resolve(req.result ?? { autoRescanEnabled: true, rescanIntervalMin: 30, lastScanTimestamp: 0 });
+    const req = tx.objectStore(CONFIG_STORE).get("rankingModel");
+    req.onsuccess = () => resolve(req.result ?? null);
     req.onerror = () => reject(req.error);
   });
 }
 
-export async function saveRescanConfig(config: RescanConfig): Promise<void> {
+/** Save fitted weights, or delete them (null) to fall back to the defaults */
+export async function saveRankingModel(model: RankingModel | null): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CONFIG_STORE, "readwrite");
-    tx.objectStore(CONFIG_STORE).put(config, "rescan");
+    const store = tx.objectStore(CONFIG_STORE);
+    if (model) store.put(model, "rankingModel");
+    else store.delete("rankingModel");
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Forget all logged ranking events and learned weights */
+export async function resetRankingData(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([RANKING_STORE, CONFIG_STORE], "readwrite");
+    tx.objectStore(RANKING_STORE).clear();
+    tx.objectStore(CONFIG_STORE).delete("rankingModel");
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// ---- Delete record by ID ----
+
+export async function deleteById(id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    tx.objectStore(STORE_NAME).delete(id);
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
@@ -329,27 +790,24 @@ export async function clearScannedData(): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(
-      [STORE_NAME, VOCAB_STORE, HISTORY_STORE, HANDLE_STORE, CONFIG_STORE],
+      [
+        STORE_NAME, VOCAB_STORE, HISTORY_STORE, HANDLE_STORE, CONFIG_STORE, FEEDBACK_STORE, RANKING_STORE,
+        ROOTS_STORE, JOBS_STORE, CHECKPOINT_STORE,
+      ],
       "readwrite"
     );
 
     tx.objectStore(STORE_NAME).clear();
     tx.objectStore(VOCAB_STORE).delete("main");
     tx.objectStore(HISTORY_STORE).clear();
-    tx.objectStore(HANDLE_STORE).delete("main");
+    tx.objectStore(FEEDBACK_STORE).clear();
+    tx.objectStore(RANKING_STORE).clear();
+    tx.objectStore(HANDLE_STORE).clear();
+    tx.objectStore(ROOTS_STORE).clear();
+    tx.objectStore(JOBS_STORE).clear();
+    tx.objectStore(CHECKPOINT_STORE).clear();
     tx.objectStore(CONFIG_STORE).delete("pathMemory");
-
-    const configStore = tx.objectStore(CONFIG_STORE);
-    const req = configStore.get("rescan");
-    req.onsuccess = () => {
-      const cfg: RescanConfig = req.result ?? {
-        autoRescanEnabled: true,
-        rescanIntervalMin: 30,
-        lastScanTimestamp: 0,
-      };
-      cfg.lastScanTimestamp = 0;
-      configStore.put(cfg, "rescan");
-    };
+    tx.objectStore(CONFIG_STORE).delete("rankingModel");
 
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
@@ -357,33 +815,31 @@ export async function clearScannedData(): Promise<void> {
   });
 }
 
-// ---- Dense vector search (for Gemini embeddings) ----
+// ---- Dense vector search (provider embeddings) ----
+
+/**
+ * Whether a record's dense vector lives in the same space as `model`'s output.
+ * Vectors stored before records carried a model ID count as stale.
+ */
+export function isDenseCompatible(record: VectorRecord, model: string, dim?: number): boolean {
+  if (!record.denseVector?.length || record.denseModel !== model) return false;
+  if (record.denseDim !== record.denseVector.length) return false;
+  return dim === undefined || record.denseDim === dim;
+}
 
 export async function denseSearch(
   queryVector: number[],
+  model: string,
   topN: number = 5,
   acceptFilter?: string
 ): Promise<SearchResult[]> {
-  const all = await getAll();
-  // Only consider records that have dense vectors
-  let candidates = all.filter((r) => r.denseVector && r.denseVector.length > 0);
+  const all = await getEnabledRecords();
+  // Vectors from another provider/model aren't comparable, even at the same size
+  let candidates = all.filter((r) => isDenseCompatible(r, model, queryVector.length));
 
   if (candidates.length === 0) return [];
 
-  if (acceptFilter) {
-    const accepts = acceptFilter.split(",").map((s) => s.trim().toLowerCase());
-    const filtered = candidates.filter((r) => {
-      const ext = "." + r.name.split(".").pop()?.toLowerCase();
-      const mime = r.type.toLowerCase();
-      return accepts.some(
-        (a) =>
-          a === ext ||
-          a === mime ||
-          (a.endsWith("/*") && mime.startsWith(a.replace("/*", "/")))
-      );
-    });
-    if (filtered.length > 0) candidates = filtered;
-  }
+  candidates = filterByAccept(candidates, acceptFilter);
 
   return candidates
     .map((record) => ({ record, score: cosine(queryVector, record.denseVector!) }))
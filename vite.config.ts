@@ -2,7 +2,8 @@ import { defineConfig } from "vite";
 import { resolve } from "path";
 
 /**
- * Main Vite config — builds background service worker + popup.
+ * Main Vite config — builds background service worker, popup and the
+ * offscreen document that hosts the on-device embedding model.
  *
  * The content script is built separately via vite.config.content.ts
  * because content scripts must be classic (non-module) scripts and
@@ -17,6 +18,7 @@ export default defineConfig({
       input: {
         background: resolve(__dirname, "src/background.ts"),
         popup: resolve(__dirname, "popup.html"),
+        offscreen: resolve(__dirname, "offscreen.html"),
       },
       output: {
         entryFileNames: "[name].js",